@@ -0,0 +1,38 @@
+// functions/src/admin-guard.ts
+import * as admin from 'firebase-admin';
+import { CallableRequest, HttpsError } from 'firebase-functions/v2/https';
+
+const db = admin.firestore();
+
+// Custom-claim roles that may run referral maintenance tools
+const MAINTENANCE_CLAIM_ROLES = ['super_admin'];
+
+/**
+ * Check whether a uid belongs to an admin.
+ * Accepts both the custom-claim roles and the legacy users/{uid}.role == 'admin'.
+ */
+export async function isAdminUser(uid: string, claimRole?: unknown): Promise<boolean> {
+  if (typeof claimRole === 'string' && MAINTENANCE_CLAIM_ROLES.includes(claimRole)) {
+    return true;
+  }
+
+  const userDoc = await db.collection('users').doc(uid).get();
+  const role = userDoc.data()?.role;
+  return role === 'admin' || role === 'Admin';
+}
+
+/**
+ * Throw unless the callable was invoked by an admin. Returns the caller uid.
+ */
+export async function requireAdmin(request: CallableRequest): Promise<string> {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  if (!(await isAdminUser(uid, request.auth?.token.role))) {
+    throw new HttpsError('permission-denied', 'Only admins can run this operation');
+  }
+
+  return uid;
+}
@@ -1,6 +1,7 @@
 // functions/src/admin-system.ts
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import { usersCollection } from './user-model';
 
 const db = admin.firestore();
 const auth = admin.auth();
@@ -178,25 +179,19 @@ export const flagSuspiciousReferrals = functions.https.onCall(async (data, conte
     }
 
     // Get all users and analyze referral patterns
-    const usersSnapshot = await db.collection('users').get();
+    const usersSnapshot = await usersCollection().get();
     const suspiciousActivities = [];
 
-    const userMap = new Map();
-    usersSnapshot.docs.forEach(doc => {
-      userMap.set(doc.id, { id: doc.id, ...doc.data() });
-    });
-
     // Check for suspicious patterns
-    for (const [uid, user] of userMap) {
-      const referralStats = user.referralStats || {};
-      const directReferrals = referralStats.directReferrals || 0;
-      const teamSize = referralStats.teamSize || 0;
+    for (const doc of usersSnapshot.docs) {
+      const user = doc.data();
+      const { uid, directReferrals, teamReferrals: teamSize } = user;
       
       // Flag users with unusually high referral rates
       if (directReferrals > 50 || teamSize > 200) {
         suspiciousActivities.push({
           uid,
-          phoneNumber: user.phoneNumber,
+          phoneNumber: user.phoneE164,
           type: 'high_referral_count',
           details: { directReferrals, teamSize },
           flaggedAt: admin.firestore.FieldValue.serverTimestamp()
@@ -211,7 +206,7 @@ export const flagSuspiciousReferrals = functions.https.onCall(async (data, conte
         if (daysOld < 7 && directReferrals > 20) {
           suspiciousActivities.push({
             uid,
-            phoneNumber: user.phoneNumber,
+            phoneNumber: user.phoneE164,
             type: 'rapid_referral_growth',
             details: { directReferrals, accountAgeDays: Math.round(daysOld) },
             flaggedAt: admin.firestore.FieldValue.serverTimestamp()
@@ -7,6 +7,8 @@ import { onDocumentWritten } from "firebase-functions/v2/firestore";
 import { onCall } from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
+import { maxPromotionLevel } from "./member-verification";
+import { normalizeUser } from "./user-model";
 
 const db = admin.firestore();
 
@@ -53,8 +55,8 @@ export const automaticRolePromotion = onDocumentWritten(
  */
 async function processAutomaticPromotion(userId: string, userData: any): Promise<void> {
   const currentRoleLevel = userData.currentRoleLevel || 1;
-  const directReferrals = userData.directReferrals || 0;
-  const teamReferrals = userData.teamReferrals || userData.teamSize || 0;
+  const { directReferrals, teamReferrals } = normalizeUser(userId, userData);
+  const maxLevel = maxPromotionLevel(userData);
 
   // Find the highest eligible role
   let newRole = null;
@@ -62,7 +64,7 @@ async function processAutomaticPromotion(userId: string, userData: any): Promise
     const meetsDirect = directReferrals >= role.direct;
     const meetsTeam = teamReferrals >= role.team;
 
-    if (meetsDirect && meetsTeam && role.level > currentRoleLevel) {
+    if (meetsDirect && meetsTeam && role.level > currentRoleLevel && role.level <= maxLevel) {
       newRole = role;
       break;
     }
@@ -106,6 +108,58 @@ async function executeRolePromotion(userId: string, userData: any, newRole: any)
   logger.log(`✅ Successfully promoted user ${userId} to ${newRole.name}`);
 }
 
+// Roles that are managed by admins and never promoted or demoted here
+const MANAGED_ROLES = ['Admin', 'admin', 'super_admin', 'moderator', 'regional_admin', 'auditor'];
+
+/**
+ * Re-evaluate a user's role after their referral counts went down.
+ * Unlike the automatic promotion this can also demote a user whose counts
+ * no longer meet their current role's thresholds.
+ */
+export async function reevaluateUserRole(userId: string): Promise<void> {
+  const userRef = db.collection('users').doc(userId);
+  const userDoc = await userRef.get();
+  const userData = userDoc.data();
+
+  if (!userData || MANAGED_ROLES.includes(userData.role) || userData.currentRoleLevel === 0) {
+    return;
+  }
+
+  const currentRoleLevel = userData.currentRoleLevel || 1;
+  const { directReferrals, teamReferrals } = normalizeUser(userId, userData);
+
+  const eligibleRole = ROLE_THRESHOLDS.find(
+    (role) => directReferrals >= role.direct && teamReferrals >= role.team
+  )!;
+  // Coordinator roles wait for verification, but are not taken away for lacking it
+  const promotableRole = ROLE_THRESHOLDS.find(
+    (role) => role.level <= Math.min(eligibleRole.level, maxPromotionLevel(userData))
+  )!;
+
+  if (promotableRole.level > currentRoleLevel) {
+    await executeRolePromotion(userId, userData, promotableRole);
+    return;
+  }
+
+  if (eligibleRole.level < currentRoleLevel) {
+    logger.log(`⬇️ Adjusting user ${userId} from level ${currentRoleLevel} to ${eligibleRole.name}`);
+
+    await userRef.update({
+      currentRoleLevel: eligibleRole.level,
+      role: eligibleRole.name,
+      lastRoleUpdate: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    await userRef.collection('notifications').add({
+      type: 'role_adjustment',
+      title: 'Role updated',
+      message: `Your role is now ${eligibleRole.name} after a change in your team.`,
+      read: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+}
+
 /**
  * Manual trigger for checking promotions
  */
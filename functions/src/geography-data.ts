@@ -0,0 +1,139 @@
+/**
+ * Administrative Geography Reference Data
+ * Telangana and Andhra Pradesh states and districts, with English and
+ * Telugu names, and the mandals of Hyderabad.
+ *
+ * Codes are stable once published: a renamed unit keeps its code and takes
+ * the old name as an alias, a new unit gets a new code. Bump
+ * GEOGRAPHY_VERSION with every change so stored locationCodes can be traced
+ * to the data they were resolved against.
+ *
+ * Districts follow the 2016 (Telangana, with the 2019 additions and the
+ * 2021 Warangal renaming) and 2022 (Andhra Pradesh) reorganisations.
+ * The reference data is coded to the district level. Mandals are coded
+ * only for Hyderabad and villages are not coded. A district's mandals are added as one complete,
+ * sourced list, never piecemeal, so a district either resolves every
+ * mandal to a code or none.
+ */
+
+export const GEOGRAPHY_VERSION = '2024.1';
+
+export interface GeoUnit {
+  code: string;
+  name: string;
+  nameTe: string;
+  // Other spellings and former names that resolve to this unit
+  aliases?: string[];
+}
+
+export interface GeoMandal extends GeoUnit {
+  villages?: GeoUnit[];
+}
+
+export interface GeoDistrict extends GeoUnit {
+  mandals?: GeoMandal[];
+}
+
+export interface GeoState extends GeoUnit {
+  districts: GeoDistrict[];
+}
+
+export const GEOGRAPHY: GeoState[] = [
+  {
+    code: 'TG',
+    name: 'Telangana',
+    nameTe: 'తెలంగాణ',
+    aliases: ['TS', 'Telangana State'],
+    districts: [
+      { code: 'TG-ADB', name: 'Adilabad', nameTe: 'ఆదిలాబాద్' },
+      { code: 'TG-BDK', name: 'Bhadradri Kothagudem', nameTe: 'భద్రాద్రి కొత్తగూడెం', aliases: ['Kothagudem', 'Bhadradri'] },
+      { code: 'TG-HNK', name: 'Hanumakonda', nameTe: 'హనుమకొండ', aliases: ['Hanamkonda', 'Warangal Urban'] },
+      {
+        code: 'TG-HYD',
+        name: 'Hyderabad',
+        nameTe: 'హైదరాబాద్',
+        mandals: [
+          { code: 'TG-HYD-AMB', name: 'Amberpet', nameTe: 'అంబర్‌పేట్' },
+          { code: 'TG-HYD-AMR', name: 'Ameerpet', nameTe: 'అమీర్‌పేట్' },
+          { code: 'TG-HYD-ASN', name: 'Asifnagar', nameTe: 'ఆసిఫ్‌నగర్' },
+          { code: 'TG-HYD-BHP', name: 'Bahadurpura', nameTe: 'బహదూర్‌పురా' },
+          { code: 'TG-HYD-BDG', name: 'Bandlaguda', nameTe: 'బండ్లగూడ' },
+          { code: 'TG-HYD-CHM', name: 'Charminar', nameTe: 'చార్మినార్' },
+          { code: 'TG-HYD-GLK', name: 'Golconda', nameTe: 'గోల్కొండ', aliases: ['Golkonda'] },
+          { code: 'TG-HYD-HMN', name: 'Himayatnagar', nameTe: 'హిమాయత్‌నగర్', aliases: ['Himayathnagar'] },
+          { code: 'TG-HYD-KHB', name: 'Khairatabad', nameTe: 'ఖైరతాబాద్' },
+          { code: 'TG-HYD-MRP', name: 'Marredpally', nameTe: 'మారేడ్‌పల్లి', aliases: ['Maredpally'] },
+          { code: 'TG-HYD-MSB', name: 'Musheerabad', nameTe: 'ముషీరాబాద్' },
+          { code: 'TG-HYD-NMP', name: 'Nampally', nameTe: 'నాంపల్లి' },
+          { code: 'TG-HYD-SDB', name: 'Saidabad', nameTe: 'సైదాబాద్' },
+          { code: 'TG-HYD-SEC', name: 'Secunderabad', nameTe: 'సికింద్రాబాద్' },
+          { code: 'TG-HYD-SKP', name: 'Shaikpet', nameTe: 'షేక్‌పేట్', aliases: ['Shaikpeta'] },
+          { code: 'TG-HYD-TMG', name: 'Tirumalagiri', nameTe: 'తిరుమలగిరి', aliases: ['Trimulgherry'] },
+        ],
+      },
+      { code: 'TG-JGL', name: 'Jagtial', nameTe: 'జగిత్యాల', aliases: ['Jagityal', 'Jagitial'] },
+      { code: 'TG-JGN', name: 'Jangaon', nameTe: 'జనగామ', aliases: ['Janagama'] },
+      { code: 'TG-JBP', name: 'Jayashankar Bhupalpally', nameTe: 'జయశంకర్ భూపాలపల్లి', aliases: ['Bhupalpally', 'Bhupalapalli'] },
+      { code: 'TG-JGW', name: 'Jogulamba Gadwal', nameTe: 'జోగులాంబ గద్వాల', aliases: ['Gadwal'] },
+      { code: 'TG-KMR', name: 'Kamareddy', nameTe: 'కామారెడ్డి' },
+      { code: 'TG-KRN', name: 'Karimnagar', nameTe: 'కరీంనగర్' },
+      { code: 'TG-KMM', name: 'Khammam', nameTe: 'ఖమ్మం' },
+      { code: 'TG-KBA', name: 'Kumuram Bheem Asifabad', nameTe: 'కుమురం భీం ఆసిఫాబాద్', aliases: ['Komaram Bheem Asifabad', 'Asifabad'] },
+      { code: 'TG-MBB', name: 'Mahabubabad', nameTe: 'మహబూబాబాద్', aliases: ['Mahbubabad'] },
+      { code: 'TG-MBN', name: 'Mahabubnagar', nameTe: 'మహబూబ్‌నగర్', aliases: ['Mahbubnagar', 'Mahaboobnagar'] },
+      { code: 'TG-MNC', name: 'Mancherial', nameTe: 'మంచిర్యాల' },
+      { code: 'TG-MDK', name: 'Medak', nameTe: 'మెదక్' },
+      { code: 'TG-MDM', name: 'Medchal-Malkajgiri', nameTe: 'మేడ్చల్ మల్కాజ్‌గిరి', aliases: ['Medchal', 'Malkajgiri', 'Medchal Malkajgiri'] },
+      { code: 'TG-MLG', name: 'Mulugu', nameTe: 'ములుగు' },
+      { code: 'TG-NGK', name: 'Nagarkurnool', nameTe: 'నాగర్‌కర్నూల్', aliases: ['Nagar Kurnool'] },
+      { code: 'TG-NLG', name: 'Nalgonda', nameTe: 'నల్గొండ', aliases: ['Nalagonda'] },
+      { code: 'TG-NRP', name: 'Narayanpet', nameTe: 'నారాయణపేట' },
+      { code: 'TG-NRL', name: 'Nirmal', nameTe: 'నిర్మల్' },
+      { code: 'TG-NZB', name: 'Nizamabad', nameTe: 'నిజామాబాద్' },
+      { code: 'TG-PDP', name: 'Peddapalli', nameTe: 'పెద్దపల్లి', aliases: ['Peddapalle'] },
+      { code: 'TG-RJS', name: 'Rajanna Sircilla', nameTe: 'రాజన్న సిరిసిల్ల', aliases: ['Sircilla'] },
+      { code: 'TG-RRD', name: 'Ranga Reddy', nameTe: 'రంగారెడ్డి', aliases: ['Rangareddy', 'Rangareddi'] },
+      { code: 'TG-SRD', name: 'Sangareddy', nameTe: 'సంగారెడ్డి' },
+      { code: 'TG-SDP', name: 'Siddipet', nameTe: 'సిద్దిపేట' },
+      { code: 'TG-SRP', name: 'Suryapet', nameTe: 'సూర్యాపేట' },
+      { code: 'TG-VKB', name: 'Vikarabad', nameTe: 'వికారాబాద్' },
+      { code: 'TG-WNP', name: 'Wanaparthy', nameTe: 'వనపర్తి', aliases: ['Wanaparthi'] },
+      { code: 'TG-WGL', name: 'Warangal', nameTe: 'వరంగల్', aliases: ['Warangal Rural'] },
+      { code: 'TG-YBG', name: 'Yadadri Bhuvanagiri', nameTe: 'యాదాద్రి భువనగిరి', aliases: ['Yadadri', 'Bhongir', 'Bhuvanagiri'] },
+    ],
+  },
+  {
+    code: 'AP',
+    name: 'Andhra Pradesh',
+    nameTe: 'ఆంధ్రప్రదేశ్',
+    aliases: ['Andhra'],
+    districts: [
+      { code: 'AP-ASR', name: 'Alluri Sitharama Raju', nameTe: 'అల్లూరి సీతారామరాజు', aliases: ['Paderu'] },
+      { code: 'AP-AKP', name: 'Anakapalli', nameTe: 'అనకాపల్లి' },
+      { code: 'AP-ATP', name: 'Anantapur', nameTe: 'అనంతపురం', aliases: ['Ananthapuramu', 'Anantapuram'] },
+      { code: 'AP-ANM', name: 'Annamayya', nameTe: 'అన్నమయ్య', aliases: ['Rayachoti'] },
+      { code: 'AP-BPT', name: 'Bapatla', nameTe: 'బాపట్ల' },
+      { code: 'AP-CTR', name: 'Chittoor', nameTe: 'చిత్తూరు' },
+      { code: 'AP-KNS', name: 'Dr. B.R. Ambedkar Konaseema', nameTe: 'డా. బి.ఆర్. అంబేద్కర్ కోనసీమ', aliases: ['Konaseema', 'Amalapuram'] },
+      { code: 'AP-EGD', name: 'East Godavari', nameTe: 'తూర్పు గోదావరి' },
+      { code: 'AP-ELR', name: 'Eluru', nameTe: 'ఏలూరు' },
+      { code: 'AP-GNT', name: 'Guntur', nameTe: 'గుంటూరు' },
+      { code: 'AP-KKD', name: 'Kakinada', nameTe: 'కాకినాడ' },
+      { code: 'AP-KRS', name: 'Krishna', nameTe: 'కృష్ణా', aliases: ['Machilipatnam'] },
+      { code: 'AP-KNL', name: 'Kurnool', nameTe: 'కర్నూలు' },
+      { code: 'AP-NDL', name: 'Nandyal', nameTe: 'నంద్యాల' },
+      { code: 'AP-NTR', name: 'NTR', nameTe: 'ఎన్టీఆర్', aliases: ['NTR District', 'Vijayawada'] },
+      { code: 'AP-PLN', name: 'Palnadu', nameTe: 'పల్నాడు', aliases: ['Narasaraopet'] },
+      { code: 'AP-PMY', name: 'Parvathipuram Manyam', nameTe: 'పార్వతీపురం మన్యం', aliases: ['Parvathipuram'] },
+      { code: 'AP-PKM', name: 'Prakasam', nameTe: 'ప్రకాశం', aliases: ['Ongole'] },
+      { code: 'AP-NLR', name: 'Sri Potti Sriramulu Nellore', nameTe: 'శ్రీ పొట్టి శ్రీరాములు నెల్లూరు', aliases: ['Nellore', 'SPSR Nellore'] },
+      { code: 'AP-SSS', name: 'Sri Sathya Sai', nameTe: 'శ్రీ సత్యసాయి', aliases: ['Puttaparthi', 'Sri Satya Sai'] },
+      { code: 'AP-SKL', name: 'Srikakulam', nameTe: 'శ్రీకాకుళం' },
+      { code: 'AP-TPT', name: 'Tirupati', nameTe: 'తిరుపతి' },
+      { code: 'AP-VSP', name: 'Visakhapatnam', nameTe: 'విశాఖపట్నం', aliases: ['Vizag', 'Vishakhapatnam'] },
+      { code: 'AP-VZM', name: 'Vizianagaram', nameTe: 'విజయనగరం', aliases: ['Vizianagram'] },
+      { code: 'AP-WGD', name: 'West Godavari', nameTe: 'పశ్చిమ గోదావరి', aliases: ['Bhimavaram'] },
+      { code: 'AP-KDP', name: 'YSR Kadapa', nameTe: 'వైఎస్ఆర్ కడప', aliases: ['Kadapa', 'Cuddapah', 'YSR'] },
+    ],
+  },
+];
@@ -0,0 +1,130 @@
+/**
+ * Location Migration
+ * Maps the free-text state / district / mandal / village of existing users
+ * onto geography.ts reference codes and canonical names.
+ *
+ * Users whose location cannot be resolved are reported, not changed, so the
+ * values can be added as aliases (or corrected) and the page run again.
+ * Each call handles one page of users; call again with the returned
+ * pageToken until it comes back null.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { requireAdmin } from "./admin-guard";
+import { logAdminAction } from "./admin-system";
+import { GEOGRAPHY_VERSION } from "./geography-data";
+import { locationFields, LocationProblem, resolveLocation } from "./geography";
+import { Region, REGION_LEVELS, regionOf } from "./region";
+
+const db = admin.firestore();
+
+const DEFAULT_PAGE_SIZE = 300;
+const MAX_PAGE_SIZE = 450;
+
+/**
+ * The update that gives a user canonical location fields, null when they
+ * already have them, or the reason the location cannot be resolved
+ */
+export function userLocationUpdate(
+  data: admin.firestore.DocumentData
+): { update: admin.firestore.DocumentData | null } | { problem: LocationProblem; region: Region } {
+  const region = regionOf(data);
+  const resolution = resolveLocation(region);
+  if (!resolution.ok) return { problem: resolution.problem, region };
+
+  const fields = locationFields(resolution);
+  const update: admin.firestore.DocumentData = {};
+  for (const level of REGION_LEVELS) {
+    if ((data[level] ?? null) !== fields[level]) update[level] = fields[level];
+    // The app and sendToRegion read the address map
+    if (data.address && typeof data.address === 'object' && (data.address[level] ?? null) !== fields[level]) {
+      update[`address.${level}`] = fields[level];
+    }
+  }
+  const codesChanged = REGION_LEVELS.some((level) => (data.locationCodes?.[level] ?? null) !== fields.locationCodes[level]);
+  if (codesChanged || data.geographyVersion !== GEOGRAPHY_VERSION) {
+    update.locationCodes = fields.locationCodes;
+    update.geographyVersion = GEOGRAPHY_VERSION;
+  }
+
+  return { update: Object.keys(update).length ? update : null };
+}
+
+/**
+ * migrateUserLocations (callable)
+ *
+ * ADMIN ONLY: Resolves the locations of one page of users.
+ * Defaults to a dry run; pass { dryRun: false } to write the changes.
+ *
+ * Params: { dryRun?, pageSize?, pageToken? }
+ * Returns: { dryRun, version, scanned, migrated, unresolved, sample, nextPageToken }
+ */
+export const migrateUserLocations = onCall(async (request) => {
+  const adminUid = await requireAdmin(request);
+
+  const { pageSize = DEFAULT_PAGE_SIZE, pageToken } = request.data || {};
+  const dryRun = request.data?.dryRun !== false;
+  const limit = Math.min(Math.max(Number(pageSize) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  if (pageToken != null && typeof pageToken !== 'string') {
+    throw new HttpsError('invalid-argument', 'pageToken must be a string');
+  }
+
+  try {
+    let query = db.collection('users')
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .select(...REGION_LEVELS, 'address', 'locationCodes', 'geographyVersion')
+      .limit(limit);
+    if (pageToken) query = query.startAfter(pageToken);
+    const snapshot = await query.get();
+
+    const batch = db.batch();
+    const sample: Array<{ uid: string; update: admin.firestore.DocumentData }> = [];
+    const unresolved: Array<{ uid: string; problem: LocationProblem; region: Region }> = [];
+    let migrated = 0;
+
+    for (const doc of snapshot.docs) {
+      const result = userLocationUpdate(doc.data());
+      if ('problem' in result) {
+        unresolved.push({ uid: doc.id, problem: result.problem, region: result.region });
+        continue;
+      }
+      if (!result.update) continue;
+
+      migrated++;
+      if (sample.length < 20) sample.push({ uid: doc.id, update: result.update });
+      if (!dryRun) batch.update(doc.ref, result.update);
+    }
+
+    if (!dryRun && migrated > 0) {
+      await batch.commit();
+      await logAdminAction({
+        adminUid,
+        action: 'migrate_user_locations',
+        details: { version: GEOGRAPHY_VERSION, migrated, unresolved: unresolved.length, from: pageToken || null },
+        timestamp: admin.firestore.FieldValue.serverTimestamp()
+      });
+    }
+
+    const last = snapshot.docs[snapshot.docs.length - 1];
+    const nextPageToken = snapshot.docs.length === limit ? last.id : null;
+
+    logger.info(`Location migration page from ${pageToken || 'start'}: ${migrated} migrated, ${unresolved.length} unresolved of ${snapshot.size} (dryRun=${dryRun})`);
+    return {
+      dryRun,
+      version: GEOGRAPHY_VERSION,
+      scanned: snapshot.size,
+      migrated,
+      unresolved,
+      sample,
+      nextPageToken
+    };
+
+  } catch (error) {
+    if (error instanceof HttpsError) throw error;
+    logger.error('Location migration failed:', error);
+    throw new HttpsError('internal', 'Location migration failed');
+  }
+});
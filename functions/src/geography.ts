@@ -0,0 +1,239 @@
+/**
+ * Administrative Geography
+ * Resolves free-text or coded locations against geography-data.ts.
+ *
+ * users/{uid} keeps the canonical English names in state / district /
+ * mandal / village and the codes in
+ *   locationCodes: { state, district, mandal, village }
+ *   geographyVersion: GEOGRAPHY_VERSION the codes were resolved against
+ *
+ * States and districts always resolve to a code; mandals only in districts
+ * whose mandals geography-data.ts lists. Other mandals and all villages
+ * have a null code and are stored under a normalized name (see
+ * freeTextName), so spacing, case, punctuation and a trailing "mandal" do
+ * not split one place into several, and they are targeted and reported by
+ * that name.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import { GEOGRAPHY, GEOGRAPHY_VERSION, GeoUnit } from "./geography-data";
+import { Region, RegionLevel, REGION_LEVELS } from "./region";
+
+export type LocationCodes = Record<RegionLevel, string | null>;
+
+export type LocationProblem = 'UNKNOWN_STATE' | 'UNKNOWN_DISTRICT' | 'UNKNOWN_MANDAL' | 'UNKNOWN_VILLAGE';
+
+export type LocationResolution =
+  | { ok: true; region: Region; codes: LocationCodes }
+  | { ok: false; problem: LocationProblem };
+
+interface IndexedUnit extends GeoUnit {
+  level: RegionLevel;
+  parentCode: string | null;
+  children?: GeoUnit[];
+}
+
+const MAX_RESULTS = 50;
+
+/**
+ * Comparison key: case, punctuation, spacing and a trailing
+ * "district" / "mandal" do not distinguish names
+ */
+function matchKey(value: string): string {
+  return value
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[.,\-_/()]+/g, ' ')
+    .replace(/\s+(district|dist|mandal|mandalam)$/u, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function unitKeys(unit: GeoUnit): string[] {
+  return [unit.code, unit.name, unit.nameTe, ...(unit.aliases || [])].map(matchKey);
+}
+
+function childrenOf(unit: GeoUnit): GeoUnit[] | undefined {
+  const nested = unit as { districts?: GeoUnit[]; mandals?: GeoUnit[]; villages?: GeoUnit[] };
+  return nested.districts ?? nested.mandals ?? nested.villages;
+}
+
+// Every unit by code, with its level and parent
+const UNITS_BY_CODE = new Map<string, IndexedUnit>();
+(function index(units: GeoUnit[], depth: number, parentCode: string | null) {
+  for (const unit of units) {
+    const children = childrenOf(unit);
+    UNITS_BY_CODE.set(unit.code, { ...unit, level: REGION_LEVELS[depth], parentCode, children });
+    if (children) index(children, depth + 1, unit.code);
+  }
+})(GEOGRAPHY, 0, null);
+
+function findUnit(units: GeoUnit[], value: string): GeoUnit | undefined {
+  const key = matchKey(value);
+  return units.find((unit) => unitKeys(unit).includes(key));
+}
+
+/**
+ * Stored form of a name the reference data does not list: matchKey's
+ * normalization with each word capitalized, e.g. "  kondapur mandal" ->
+ * "Kondapur"
+ */
+export function freeTextName(value: string): string {
+  return matchKey(value).replace(/(^|\s)(\p{Ll})/gu, (_, space: string, letter: string) => space + letter.toUpperCase());
+}
+
+function textOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().replace(/\s+/g, ' ') : null;
+}
+
+/**
+ * Map entered names or codes onto the reference data. Unknown values are a
+ * problem wherever the reference data lists the possible values; a missing
+ * state is inferred from the district.
+ */
+export function resolveLocation(input: Partial<Record<RegionLevel, unknown>>): LocationResolution {
+  const entered = {
+    state: textOrNull(input.state),
+    district: textOrNull(input.district),
+    mandal: textOrNull(input.mandal),
+    village: textOrNull(input.village),
+  };
+
+  const region: Region = {};
+  const codes: LocationCodes = { state: null, district: null, mandal: null, village: null };
+
+  let state = entered.state ? findUnit(GEOGRAPHY, entered.state) : undefined;
+  if (entered.state && !state) return { ok: false, problem: 'UNKNOWN_STATE' };
+
+  let candidates: GeoUnit[] | undefined = state
+    ? childrenOf(state)
+    : GEOGRAPHY.flatMap((s) => s.districts);
+
+  for (const level of ['district', 'mandal', 'village'] as const) {
+    const value = entered[level];
+    if (!value) {
+      // Nothing below a gap can be placed in the hierarchy
+      candidates = undefined;
+      continue;
+    }
+    if (!candidates) {
+      region[level] = freeTextName(value) || value;
+      continue;
+    }
+
+    const unit = findUnit(candidates, value);
+    if (!unit) {
+      return { ok: false, problem: `UNKNOWN_${level.toUpperCase()}` as LocationProblem };
+    }
+    region[level] = unit.name;
+    codes[level] = unit.code;
+    if (!state) {
+      state = GEOGRAPHY.find((s) => s.districts.some((district) => district.code === unit.code));
+    }
+    candidates = childrenOf(unit);
+  }
+
+  if (state) {
+    region.state = state.name;
+    codes.state = state.code;
+  }
+
+  return { ok: true, region, codes };
+}
+
+/**
+ * The location codes stored on a user document, null where a level has none
+ */
+export function storedLocationCodes(userData: admin.firestore.DocumentData): LocationCodes {
+  const codes: LocationCodes = { state: null, district: null, mandal: null, village: null };
+  for (const level of REGION_LEVELS) {
+    const code = userData.locationCodes?.[level];
+    if (typeof code === 'string' && code) codes[level] = code;
+  }
+  return codes;
+}
+
+/**
+ * User document fields for a resolved location
+ */
+export function locationFields(resolution: Extract<LocationResolution, { ok: true }>): admin.firestore.DocumentData {
+  return {
+    state: resolution.region.state ?? null,
+    district: resolution.region.district ?? null,
+    mandal: resolution.region.mandal ?? null,
+    village: resolution.region.village ?? null,
+    locationCodes: resolution.codes,
+    geographyVersion: GEOGRAPHY_VERSION,
+  };
+}
+
+/**
+ * The same names under address, which the app and sendToRegion read. Meant
+ * for a merge write, so the rest of the address map is kept.
+ */
+export function addressFields(resolution: Extract<LocationResolution, { ok: true }>): admin.firestore.DocumentData {
+  return {
+    address: {
+      state: resolution.region.state ?? null,
+      district: resolution.region.district ?? null,
+      mandal: resolution.region.mandal ?? null,
+      village: resolution.region.village ?? null,
+    },
+  };
+}
+
+function publicUnit(unit: IndexedUnit) {
+  return {
+    code: unit.code,
+    name: unit.name,
+    nameTe: unit.nameTe,
+    level: unit.level,
+    parentCode: unit.parentCode,
+    hasChildren: !!unit.children?.length,
+  };
+}
+
+/**
+ * lookupLocations (callable)
+ *
+ * Reference data for location pickers. With code, returns that unit and its
+ * ancestors (state first). Otherwise lists the units of a level, optionally
+ * under parentCode, whose English name, Telugu name or alias contains query;
+ * names starting with query come first.
+ *
+ * Params: { code } | { level, parentCode?, query?, limit? }
+ * Returns: { version, results: Array<{ code, name, nameTe, level, parentCode, hasChildren }> }
+ */
+export const lookupLocations = onCall(async (request) => {
+  const { code, level, parentCode, query, limit = 20 } = request.data || {};
+
+  if (code != null) {
+    const path: IndexedUnit[] = [];
+    for (let unit = UNITS_BY_CODE.get(String(code)); unit; unit = unit.parentCode ? UNITS_BY_CODE.get(unit.parentCode) : undefined) {
+      path.unshift(unit);
+    }
+    if (path.length === 0) throw new HttpsError('not-found', `Unknown location code ${code}`);
+    return { version: GEOGRAPHY_VERSION, results: path.map(publicUnit) };
+  }
+
+  if (!REGION_LEVELS.includes(level)) {
+    throw new HttpsError('invalid-argument', `level must be one of ${REGION_LEVELS.join(', ')}`);
+  }
+  if (query != null && typeof query !== 'string') {
+    throw new HttpsError('invalid-argument', 'query must be a string');
+  }
+  const max = Math.min(Math.max(Number(limit) || 20, 1), MAX_RESULTS);
+
+  const key = query ? matchKey(query) : '';
+  const matches: Array<{ unit: IndexedUnit; prefix: boolean }> = [];
+  for (const unit of UNITS_BY_CODE.values()) {
+    if (unit.level !== level || (parentCode && unit.parentCode !== parentCode)) continue;
+    const keys = unitKeys(unit);
+    if (key && !keys.some((k) => k.includes(key))) continue;
+    matches.push({ unit, prefix: !key || keys.some((k) => k.startsWith(key)) });
+  }
+
+  matches.sort((a, b) => Number(b.prefix) - Number(a.prefix) || a.unit.name.localeCompare(b.unit.name));
+  return { version: GEOGRAPHY_VERSION, results: matches.slice(0, max).map(({ unit }) => publicUnit(unit)) };
+});
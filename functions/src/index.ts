@@ -11,7 +11,6 @@ export {
   fixOrphanedUsers,
   ensureReferralCode,
   fixReferralCodeConsistency,
-  bulkFixReferralConsistency,
   getMyReferralStats,
   registerUserProfile,
   checkPhone,
@@ -62,4 +61,115 @@ export {
 // Export migration functions
 export {
   migrateConversations
-} from './migrate-conversations';
\ No newline at end of file
+} from './migrate-conversations';
+// Export referral maintenance functions
+export {
+  recomputeReferralStats,
+  scheduledReferralStatsRecompute
+} from './referral-recompute';
+
+// Export referral tree explorer
+export {
+  getReferralTree
+} from './referral-tree';
+
+// Export referral code lookup
+export {
+  lookupReferralCode
+} from './referral-lookup';
+
+// Export referral reversal functions
+export {
+  reverseReferralCredits,
+  reverseReferralOnBan,
+  reverseReferralOnDelete
+} from './referral-reversal';
+
+// Export referral reassignment
+export {
+  reassignReferrer
+} from './referral-reassign';
+
+// Export referral attribution triggers
+export {
+  confirmReferralOnProfileUpdate
+} from './referral-attribution';
+
+// Export referral analytics rollups
+export {
+  updateReferralRollups,
+  rebuildReferralRollups
+} from './referral-rollups';
+
+// Export regional referral leaderboards
+export {
+  scheduledLeaderboardBuild,
+  rebuildLeaderboards,
+  getRegionalLeaderboard
+} from './referral-leaderboards';
+
+// Export campaign referral codes
+export {
+  issueCampaignReferralCode,
+  getReferralCampaignStats
+} from './referral-campaigns';
+
+// Export vanity referral codes
+export {
+  requestVanityReferralCode
+} from './referral-vanity';
+
+// Export referral share links
+export {
+  getReferralShareLink
+} from './referral-share';
+
+// Export referral code consistency jobs
+export {
+  bulkFixReferralConsistency,
+  processReferralConsistencyJob,
+  resumeReferralConsistencyJob,
+  resumeStalledConsistencyJobs,
+  getReferralConsistencyReport
+} from './referral-consistency';
+
+// Export identity consistency auditor
+export {
+  scheduledConsistencyAudit,
+  runConsistencyAuditNow,
+  fixOrphanedCodeReservations,
+  fixUnreservedUserCodes,
+  fixCodeOwnerConflicts,
+  fixInvalidReferralCodes,
+  fixOrphanedPhoneClaims,
+  fixOrphanedRegistryEntries,
+  fixMissingPhoneClaims
+} from './referral-audit';
+
+// Export user schema migration
+export { migrateUserSchema } from './user-migration';
+
+// Export phone claim migration
+export { mergeDuplicatePhoneClaims } from './phone-migration';
+
+// Export PIN verification
+export { verifyPin } from './pin';
+
+// Export PIN reset
+export {
+  requestPinReset,
+  confirmPinReset
+} from './pin-reset';
+
+// Export member verification
+export {
+  requestMemberVerification,
+  verifyMember
+} from './member-verification';
+
+// Export registration review
+export { reviewHeldRegistration } from './registration-review';
+
+// Export administrative geography
+export { lookupLocations } from './geography';
+export { migrateUserLocations } from './geography-migration';
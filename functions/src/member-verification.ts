@@ -0,0 +1,205 @@
+/**
+ * Member Verification
+ * Field verification of a member's identity and village.
+ *
+ * users/{uid}.verification = { status, verifierUid, notes, requestedAt, decidedAt }
+ *   status: unverified -> pending -> verified | rejected
+ * users/{uid}.isVerified mirrors status == 'verified' for the app and for
+ * referral confirmation.
+ * member_verifications/{id}: one entry per request and decision
+ *
+ * Coordinators decide for members inside their own area: a Mandal
+ * Coordinator for their mandal, Constituency and District Coordinators for
+ * their district, Zonal and State Coordinators for their state. Admins may
+ * decide for anyone.
+ *
+ * Promotion to coordinator levels requires a verified profile, and a
+ * rejected member's referral is never confirmed.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { isAdminUser } from "./admin-guard";
+import { RegionLevel, regionOf, sameRegionName } from "./region";
+
+const db = admin.firestore();
+
+const HISTORY_COLLECTION = 'member_verifications';
+
+export type VerificationStatus = 'unverified' | 'pending' | 'verified' | 'rejected';
+
+// Area Coordinator and above need a verified profile
+export const VERIFIED_ROLE_MIN_LEVEL = 4;
+
+// Region level a coordinator of each role level answers for
+const JURISDICTION_BY_LEVEL: Record<number, RegionLevel> = {
+  5: 'mandal',
+  6: 'district',
+  7: 'district',
+  8: 'state',
+  9: 'state',
+};
+
+const MAX_NOTES_LENGTH = 1000;
+
+/**
+ * Effective verification status of a user document. Documents from before
+ * this lifecycle only have isVerified.
+ */
+export function verificationStatusOf(userData: admin.firestore.DocumentData): VerificationStatus {
+  const status = userData.verification?.status;
+  if (status === 'pending' || status === 'verified' || status === 'rejected') return status;
+  return userData.isVerified === true ? 'verified' : 'unverified';
+}
+
+export function isVerifiedMember(userData: admin.firestore.DocumentData): boolean {
+  return verificationStatusOf(userData) === 'verified';
+}
+
+/**
+ * Highest role level automatic promotion may give this user
+ */
+export function maxPromotionLevel(userData: admin.firestore.DocumentData): number {
+  return isVerifiedMember(userData) ? Infinity : VERIFIED_ROLE_MIN_LEVEL - 1;
+}
+
+/**
+ * Whether a coordinator's area covers the member's region. Every level down
+ * to the coordinator's own must be known and match.
+ *
+ * The coordinator side only reads server-owned fields (currentRoleLevel,
+ * locationCodes and the top-level names registration writes), never the
+ * address map members edit themselves. Levels with a code on both sides
+ * compare codes; the rest compare canonical names.
+ */
+export function coversMember(
+  coordinatorData: admin.firestore.DocumentData,
+  memberData: admin.firestore.DocumentData
+): boolean {
+  const roleLevel = coordinatorData.currentRoleLevel;
+  const jurisdiction = typeof roleLevel === 'number' ? JURISDICTION_BY_LEVEL[Math.min(roleLevel, 9)] : undefined;
+  if (!jurisdiction) return false;
+
+  const memberRegion = regionOf(memberData);
+  const levels: RegionLevel[] = ['state', 'district', 'mandal'];
+  for (const level of levels.slice(0, levels.indexOf(jurisdiction) + 1)) {
+    const myCode = coordinatorData.locationCodes?.[level];
+    const theirCode = memberData.locationCodes?.[level];
+    if (typeof myCode === 'string' && typeof theirCode === 'string') {
+      if (myCode !== theirCode) return false;
+      continue;
+    }
+
+    const mine = coordinatorData[level];
+    const theirs = memberRegion[level];
+    if (typeof mine !== 'string' || !mine.trim() || !theirs || !sameRegionName(mine, theirs)) return false;
+  }
+  return true;
+}
+
+function parseNotes(notes: unknown): string | null {
+  if (notes == null) return null;
+  if (typeof notes !== 'string') {
+    throw new HttpsError('invalid-argument', 'notes must be a string');
+  }
+  return notes.trim().slice(0, MAX_NOTES_LENGTH) || null;
+}
+
+/**
+ * requestMemberVerification (callable)
+ *
+ * The caller asks to be verified; moves unverified or rejected to pending.
+ *
+ * Params: { notes? }
+ * Returns: { status }
+ */
+export const requestMemberVerification = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) throw new HttpsError('unauthenticated', 'User must be authenticated');
+
+  const notes = parseNotes(request.data?.notes);
+  const userRef = db.collection('users').doc(uid);
+
+  const status = await db.runTransaction(async (tx) => {
+    const userSnap = await tx.get(userRef);
+    if (!userSnap.exists) throw new HttpsError('not-found', 'User not found');
+
+    const current = verificationStatusOf(userSnap.data()!);
+    if (current === 'pending' || current === 'verified') return current;
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    tx.update(userRef, {
+      verification: { status: 'pending', verifierUid: null, notes, requestedAt: now, decidedAt: null },
+      isVerified: false,
+    });
+    tx.create(db.collection(HISTORY_COLLECTION).doc(), {
+      uid, status: 'pending', actorUid: uid, notes, at: now,
+    });
+    return 'pending' as VerificationStatus;
+  });
+
+  return { status };
+});
+
+/**
+ * verifyMember (callable)
+ *
+ * A coordinator or admin records the outcome of a field verification.
+ * Rejections must say why in notes.
+ *
+ * Params: { uid, decision: 'verified' | 'rejected', notes? }
+ * Returns: { uid, status, previousStatus }
+ */
+export const verifyMember = onCall(async (request) => {
+  const verifierUid = request.auth?.uid;
+  if (!verifierUid) throw new HttpsError('unauthenticated', 'User must be authenticated');
+
+  const { uid, decision } = request.data || {};
+  const notes = parseNotes(request.data?.notes);
+  if (typeof uid !== 'string' || !uid) {
+    throw new HttpsError('invalid-argument', 'uid is required');
+  }
+  if (decision !== 'verified' && decision !== 'rejected') {
+    throw new HttpsError('invalid-argument', "decision must be 'verified' or 'rejected'");
+  }
+  if (decision === 'rejected' && !notes) {
+    throw new HttpsError('invalid-argument', 'notes are required when rejecting');
+  }
+  if (uid === verifierUid) {
+    throw new HttpsError('permission-denied', 'Members cannot verify themselves');
+  }
+
+  const isAdmin = await isAdminUser(verifierUid, request.auth?.token.role);
+  const userRef = db.collection('users').doc(uid);
+  const verifierRef = db.collection('users').doc(verifierUid);
+
+  const previousStatus = await db.runTransaction(async (tx) => {
+    const [userSnap, verifierSnap] = await tx.getAll(userRef, verifierRef);
+    if (!userSnap.exists) throw new HttpsError('not-found', 'Member not found');
+
+    if (!isAdmin && !(verifierSnap.exists && coversMember(verifierSnap.data()!, userSnap.data()!))) {
+      throw new HttpsError('permission-denied', 'Only coordinators of the member\'s area can verify them');
+    }
+
+    const previous = verificationStatusOf(userSnap.data()!);
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    tx.update(userRef, {
+      verification: {
+        status: decision,
+        verifierUid,
+        notes,
+        requestedAt: userSnap.data()!.verification?.requestedAt ?? null,
+        decidedAt: now,
+      },
+      isVerified: decision === 'verified',
+    });
+    tx.create(db.collection(HISTORY_COLLECTION).doc(), {
+      uid, status: decision, previousStatus: previous, actorUid: verifierUid, notes, at: now,
+    });
+    return previous;
+  });
+
+  logger.info(`Member ${uid} ${decision} by ${verifierUid} (was ${previousStatus})`);
+  return { uid, status: decision, previousStatus };
+});
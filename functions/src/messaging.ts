@@ -3,6 +3,7 @@ import * as admin from 'firebase-admin';
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { onDocumentCreated } from 'firebase-functions/v2/firestore';
 import * as logger from 'firebase-functions/logger';
+import { getUser } from './user-model';
 
 const db = admin.firestore();
 const messaging = admin.messaging();
@@ -31,8 +32,7 @@ export const onMessageCreated = onDocumentCreated(
       const participants = conversationData.participants || [];
       const conversationName = conversationData.name || 'New Message';
 
-      const senderDoc = await db.collection('users').doc(senderId).get();
-      const senderName = senderDoc.data()?.fullName || 'Someone';
+      const senderName = (await getUser(senderId))?.fullName || 'Someone';
 
       const notificationPromises = participants
         .filter((participantId: string) => participantId !== senderId)
@@ -137,8 +137,7 @@ export const sendMessage = onCall(async (request) => {
     }
 
     // Get sender name
-    const senderDoc = await db.collection('users').doc(uid).get();
-    const senderName = senderDoc.data()?.fullName || 'Unknown';
+    const senderName = (await getUser(uid))?.fullName || 'Unknown';
 
     const messageRef = await db
       .collection('conversations')
@@ -319,8 +318,7 @@ export const sendEmergencyBroadcast = onCall(async (request) => {
     });
 
     // Get sender name
-    const senderDoc = await db.collection('users').doc(uid).get();
-    const senderName = senderDoc.data()?.fullName || 'Admin';
+    const senderName = (await getUser(uid))?.fullName || 'Admin';
 
     await db
       .collection('conversations')
@@ -2,6 +2,7 @@
 import * as admin from 'firebase-admin';
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import * as logger from 'firebase-functions/logger';
+import { getUser } from './user-model';
 
 const db = admin.firestore();
 
@@ -103,8 +104,7 @@ export const migrateConversations = onCall(async (request) => {
             if (!messageData.senderName) {
               // Try to get sender name from users collection
               if (messageData.senderId && messageData.senderId !== 'anonymous') {
-                const senderDoc = await db.collection('users').doc(messageData.senderId).get();
-                messageUpdates.senderName = senderDoc.data()?.fullName || 'Unknown';
+                messageUpdates.senderName = (await getUser(messageData.senderId))?.fullName || 'Unknown';
               } else {
                 messageUpdates.senderName = 'Anonymous';
               }
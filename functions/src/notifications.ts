@@ -3,6 +3,8 @@
 
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import { resolveLocation } from './geography';
+import { getUser, normalizeUser } from './user-model';
 
 const db = admin.firestore();
 const messaging = admin.messaging();
@@ -206,14 +208,30 @@ async function sendToRegion(notificationData: any, region: any): Promise<any> {
     // Get users in the specified region
     let query: admin.firestore.Query = db.collection('users');
 
-    if (region.state) {
-      query = query.where('address.state', '==', region.state);
-    }
-    if (region.district) {
-      query = query.where('address.district', '==', region.district);
-    }
-    if (region.mandal) {
-      query = query.where('address.mandal', '==', region.mandal);
+    // Match on the most specific location code when the region resolves to one
+    const resolved = resolveLocation(region);
+    const codeLevel = resolved.ok
+      ? (['village', 'mandal', 'district', 'state'] as const).find((level) => resolved.codes[level])
+      : undefined;
+
+    if (resolved.ok && codeLevel) {
+      query = query.where(`locationCodes.${codeLevel}`, '==', resolved.codes[codeLevel]);
+      // Levels below the reference data are matched by name
+      for (const level of ['mandal', 'village'] as const) {
+        if (!resolved.codes[level] && resolved.region[level]) {
+          query = query.where(`address.${level}`, '==', resolved.region[level]);
+        }
+      }
+    } else {
+      if (region.state) {
+        query = query.where('address.state', '==', region.state);
+      }
+      if (region.district) {
+        query = query.where('address.district', '==', region.district);
+      }
+      if (region.mandal) {
+        query = query.where('address.mandal', '==', region.mandal);
+      }
     }
 
     const snapshot = await query.get();
@@ -506,8 +524,8 @@ export const sendReferralNotification = functions
       const afterData = change.after.data();
 
       // Check if referral count increased
-      const beforeReferrals = beforeData.referralStats?.totalReferrals || 0;
-      const afterReferrals = afterData.referralStats?.totalReferrals || 0;
+      const beforeReferrals = normalizeUser(userId, beforeData).directReferrals;
+      const afterReferrals = normalizeUser(userId, afterData).directReferrals;
 
       if (afterReferrals > beforeReferrals) {
         console.log(`Sending referral success notification to user: ${userId}`);
@@ -561,11 +579,10 @@ export const sendSocialNotification = functions
       if (actorUserId === postAuthorId) return;
 
       // Get actor user data
-      const actorDoc = await db.collection('users').doc(actorUserId).get();
-      if (!actorDoc.exists) return;
+      const actor = await getUser(actorUserId);
+      if (!actor) return;
 
-      const actorData = actorDoc.data()!;
-      const actorName = actorData.name || 'Someone';
+      const actorName = actor.fullName || actor.name || 'Someone';
 
       let title = '';
       let body = '';
@@ -0,0 +1,80 @@
+/**
+ * One-Time Code Delivery
+ * How one-time codes reach a member's phone, behind a small interface so the
+ * transport can be swapped without touching the flows that issue codes.
+ *
+ * OTP_DELIVERY selects the provider:
+ *   sms  - HTTP SMS gateway at SMS_GATEWAY_URL, authorized with
+ *          SMS_GATEWAY_API_KEY (production)
+ *   stub - logs the code instead of sending it; only honoured in the
+ *          Functions emulator
+ */
+
+import { defineSecret, defineString } from "firebase-functions/params";
+import * as logger from "firebase-functions/logger";
+
+export const OTP_DELIVERY = defineString('OTP_DELIVERY', { default: 'sms' });
+export const SMS_GATEWAY_URL = defineString('SMS_GATEWAY_URL', { default: '' });
+export const SMS_GATEWAY_API_KEY = defineSecret('SMS_GATEWAY_API_KEY');
+
+export interface OtpDelivery {
+  readonly name: string;
+  send(e164: string, message: string): Promise<void>;
+}
+
+class SmsGatewayDelivery implements OtpDelivery {
+  readonly name = 'sms';
+
+  constructor(private readonly url: string, private readonly apiKey: string) {}
+
+  async send(e164: string, message: string): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ to: e164, message }),
+    });
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded ${response.status}`);
+    }
+  }
+}
+
+class StubDelivery implements OtpDelivery {
+  readonly name = 'stub';
+
+  async send(e164: string, message: string): Promise<void> {
+    logger.info(`[otp stub] to ${e164}: ${message}`);
+  }
+}
+
+const providers: Record<string, () => OtpDelivery> = {
+  sms: () => {
+    if (!SMS_GATEWAY_URL.value()) throw new Error('SMS_GATEWAY_URL is not configured');
+    return new SmsGatewayDelivery(SMS_GATEWAY_URL.value(), SMS_GATEWAY_API_KEY.value());
+  },
+  stub: () => {
+    if (process.env.FUNCTIONS_EMULATOR !== 'true') {
+      throw new Error('The stub OTP provider is only available in the emulator');
+    }
+    return new StubDelivery();
+  },
+};
+
+let override: OtpDelivery | null = null;
+
+/**
+ * Replace the configured provider, e.g. with a recording fake in tests
+ */
+export function setOtpDelivery(delivery: OtpDelivery | null): void {
+  override = delivery;
+}
+
+export function otpDelivery(): OtpDelivery {
+  if (override) return override;
+  const provider = providers[OTP_DELIVERY.value()];
+  if (!provider) throw new Error(`Unknown OTP_DELIVERY provider: ${OTP_DELIVERY.value()}`);
+  return provider();
+}
@@ -0,0 +1,169 @@
+/**
+ * Phone Claim Migration
+ * Merges phones/{id} and user_registry/{id} documents whose id is not in the
+ * E.164 form produced by phone.ts into the document for the normalized number.
+ *
+ * - No normalized claim yet: the document moves to the normalized id
+ * - Normalized claim by the same uid: the two documents are merged
+ * - Normalized claim by another uid: both are left in place and the pair is
+ *   flagged for admin review, since one person holds two accounts
+ * - Ids that are not a valid number at all are only reported
+ *
+ * The claiming user's phoneE164 is rewritten along with their claim.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { requireAdmin } from "./admin-guard";
+import { logAdminAction } from "./admin-system";
+import { isNormalizedPhone, normalizePhone } from "./phone";
+import { normalizeUser } from "./user-model";
+
+const db = admin.firestore();
+
+const CLAIM_COLLECTIONS = ['phones', 'user_registry'];
+const DEFAULT_PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 400;
+
+type PhoneClaimOutcome = 'moved' | 'merged' | 'conflict' | 'invalid';
+
+interface PhoneClaimResult {
+  id: string;
+  e164: string | null;
+  outcome: PhoneClaimOutcome;
+  uid: string | null;
+  otherUid?: string | null;
+}
+
+/**
+ * Merge one non-normalized claim into its normalized document
+ */
+async function mergePhoneClaim(
+  collection: string,
+  id: string,
+  dryRun: boolean
+): Promise<PhoneClaimResult | null> {
+  const e164 = normalizePhone(id);
+  const oldRef = db.collection(collection).doc(id);
+
+  return db.runTransaction(async (tx) => {
+    const oldSnap = await tx.get(oldRef);
+    if (!oldSnap.exists) return null;
+    const oldData = oldSnap.data()!;
+    const uid: string | null = oldData.uid || null;
+
+    if (!e164) {
+      return { id, e164, outcome: 'invalid', uid };
+    }
+
+    const targetRef = db.collection(collection).doc(e164);
+    const targetSnap = await tx.get(targetRef);
+    const otherUid: string | null = targetSnap.data()?.uid || null;
+
+    if (targetSnap.exists && otherUid && uid && otherUid !== uid) {
+      if (!dryRun) {
+        tx.set(db.collection('flagged_activities').doc(`duplicate_phone_claim_${collection}_${id}`), {
+          uid,
+          type: 'duplicate_phone_claim',
+          details: { collection, phone: id, e164, otherUid },
+          flaggedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+      }
+      return { id, e164, outcome: 'conflict', uid, otherUid };
+    }
+
+    const userRef = uid ? db.collection('users').doc(uid) : null;
+    const userSnap = userRef ? await tx.get(userRef) : null;
+
+    if (!dryRun) {
+      // The normalized document's own fields win over the duplicate's
+      tx.set(targetRef, {
+        ...oldData,
+        ...(targetSnap.data() || {}),
+        mergedFrom: admin.firestore.FieldValue.arrayUnion(id),
+      });
+      tx.delete(oldRef);
+
+      if (userSnap?.exists && normalizeUser(uid!, userSnap.data()!).phoneE164 === id) {
+        tx.update(userRef!, { phoneE164: e164, phoneNumber: e164 });
+      }
+    }
+
+    return { id, e164, outcome: targetSnap.exists ? 'merged' : 'moved', uid };
+  });
+}
+
+/**
+ * mergeDuplicatePhoneClaims (callable)
+ *
+ * ADMIN ONLY: Normalizes one page of phones or user_registry document ids.
+ * Defaults to a dry run; pass { dryRun: false } to write the changes.
+ *
+ * Params: { collection?: 'phones' | 'user_registry', dryRun?, pageSize?, pageToken? }
+ * Returns: { dryRun, collection, scanned, moved, merged, conflicts, invalid, nextPageToken }
+ */
+export const mergeDuplicatePhoneClaims = onCall(async (request) => {
+  const adminUid = await requireAdmin(request);
+
+  const { collection = 'phones', pageSize = DEFAULT_PAGE_SIZE, pageToken } = request.data || {};
+  const dryRun = request.data?.dryRun !== false;
+  const limit = Math.min(Math.max(Number(pageSize) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  if (!CLAIM_COLLECTIONS.includes(collection)) {
+    throw new HttpsError('invalid-argument', `collection must be one of ${CLAIM_COLLECTIONS.join(', ')}`);
+  }
+  if (pageToken != null && typeof pageToken !== 'string') {
+    throw new HttpsError('invalid-argument', 'pageToken must be a string');
+  }
+
+  try {
+    let query = db.collection(collection)
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .select('uid')
+      .limit(limit);
+    if (pageToken) query = query.startAfter(pageToken);
+    const snapshot = await query.get();
+
+    const results: PhoneClaimResult[] = [];
+    for (const doc of snapshot.docs) {
+      if (isNormalizedPhone(doc.id)) continue;
+      const result = await mergePhoneClaim(collection, doc.id, dryRun);
+      if (result) results.push(result);
+    }
+
+    const count = (outcome: PhoneClaimOutcome) => results.filter((result) => result.outcome === outcome).length;
+    const summary = {
+      moved: count('moved'),
+      merged: count('merged'),
+      conflicts: results.filter((result) => result.outcome === 'conflict'),
+      invalid: results.filter((result) => result.outcome === 'invalid').map((result) => result.id),
+    };
+
+    if (!dryRun && results.length > 0) {
+      await logAdminAction({
+        adminUid,
+        action: 'merge_duplicate_phone_claims',
+        details: {
+          collection,
+          moved: summary.moved,
+          merged: summary.merged,
+          conflicts: summary.conflicts.length,
+          from: pageToken || null
+        },
+        timestamp: admin.firestore.FieldValue.serverTimestamp()
+      });
+    }
+
+    const last = snapshot.docs[snapshot.docs.length - 1];
+    const nextPageToken = snapshot.docs.length === limit ? last.id : null;
+
+    logger.info(`Phone claim migration of ${collection} from ${pageToken || 'start'}: ${summary.moved} moved, ${summary.merged} merged, ${summary.conflicts.length} conflicts (dryRun=${dryRun})`);
+    return { dryRun, collection, scanned: snapshot.size, ...summary, nextPageToken };
+
+  } catch (error) {
+    if (error instanceof HttpsError) throw error;
+    logger.error('Phone claim migration failed:', error);
+    throw new HttpsError('internal', 'Phone claim migration failed');
+  }
+});
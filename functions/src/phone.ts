@@ -0,0 +1,48 @@
+/**
+ * Phone Numbers
+ * The single place where client-supplied phone numbers become the E.164
+ * strings used as phones/{e164} and user_registry/{e164} document ids.
+ *
+ * Numbers without a country code are read as Indian, so 9876543210,
+ * 09876543210, 919876543210 and +91 98765 43210 all become +919876543210.
+ * Indian numbers must be in a mobile range (registration is verified by
+ * SMS); other countries only need to be a valid number for their plan.
+ */
+
+import { parsePhoneNumberFromString, CountryCode } from "libphonenumber-js/max";
+
+export const DEFAULT_PHONE_COUNTRY: CountryCode = 'IN';
+
+const MOBILE_TYPES = ['MOBILE', 'FIXED_LINE_OR_MOBILE'];
+
+/**
+ * Strict E.164 form of a phone number, or null if it is not a valid number
+ */
+export function normalizePhone(input: unknown, defaultCountry: CountryCode = DEFAULT_PHONE_COUNTRY): string | null {
+  if (typeof input !== 'string' || !input.trim()) return null;
+
+  const parsed = parsePhoneNumberFromString(input.trim(), defaultCountry);
+  if (!parsed || !parsed.isValid()) return null;
+
+  if (parsed.country === 'IN' && !MOBILE_TYPES.includes(parsed.getType() ?? '')) {
+    return null;
+  }
+
+  return parsed.number;
+}
+
+/**
+ * Whether a stored value is already in the normalized form
+ */
+export function isNormalizedPhone(value: unknown): value is string {
+  return typeof value === 'string' && normalizePhone(value) === value;
+}
+
+/**
+ * normalizePhone for callable input; throws INVALID_PHONE when it cannot be read
+ */
+export function requirePhone(input: unknown): string {
+  const e164 = normalizePhone(input);
+  if (!e164) throw new Error('INVALID_PHONE');
+  return e164;
+}
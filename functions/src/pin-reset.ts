@@ -0,0 +1,177 @@
+/**
+ * PIN Reset
+ * Recovery for members who forgot their PIN, by a one-time code sent to the
+ * registered phone.
+ *
+ * pin_resets/{e164}: the open reset for a number; a new request replaces it
+ *   { uid, codeHash, salt, attempts, expiresAt, status, requestedAt }
+ * pin_reset_audit/{id}: one entry per request, failed code and completed reset
+ *
+ * A completed reset stores a new scrypt PIN hash and revokes the member's
+ * refresh tokens, so every signed-in device has to log in again.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { createHash, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import { otpDelivery, SMS_GATEWAY_API_KEY } from "./otp-delivery";
+import { normalizePhone } from "./phone";
+import { hashPin, isValidPin, pinUpdateFields } from "./pin";
+import { clientIp, consumeRateLimit, hashRateLimitKey } from "./rate-limit";
+
+const db = admin.firestore();
+
+const RESETS_COLLECTION = 'pin_resets';
+const AUDIT_COLLECTION = 'pin_reset_audit';
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+
+const REQUEST_LIMITS = {
+  phone: { limit: 3, windowMs: 60 * 60 * 1000 },
+  ip: { limit: 20, windowMs: 60 * 60 * 1000 },
+};
+
+type PinResetEvent = 'requested' | 'delivery_failed' | 'code_rejected' | 'attempts_exhausted' | 'completed';
+
+function hashCode(code: string, salt: string): string {
+  return createHash('sha256').update(`${salt}:${code}`).digest('hex');
+}
+
+function auditEntry(event: PinResetEvent, uid: string, e164: string, ip: string | null) {
+  return {
+    event,
+    uid,
+    phone: e164,
+    ipHash: ip ? hashRateLimitKey(ip) : null,
+    at: admin.firestore.FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * requestPinReset (callable)
+ *
+ * Sends a 6-digit code, valid for 10 minutes, to a registered number. The
+ * response is the same whether or not the number is registered.
+ *
+ * Params: { e164 }
+ * Returns: { ok: true, expiresInSeconds }
+ */
+export const requestPinReset = onCall({ secrets: [SMS_GATEWAY_API_KEY] }, async (request) => {
+  const e164 = normalizePhone(request.data?.e164);
+  if (!e164) {
+    throw new HttpsError('invalid-argument', 'A valid phone number is required');
+  }
+
+  const ip = clientIp(request);
+  const limits = await Promise.all([
+    consumeRateLimit('pin_reset_phone', e164, REQUEST_LIMITS.phone),
+    ip ? consumeRateLimit('pin_reset_ip', ip, REQUEST_LIMITS.ip) : null,
+  ]);
+  if (limits.some((limit) => limit && !limit.allowed)) {
+    throw new HttpsError('resource-exhausted', 'Too many reset requests, try again later');
+  }
+
+  const response = { ok: true, expiresInSeconds: CODE_TTL_MS / 1000 };
+
+  const uid: string | undefined = (await db.collection('phones').doc(e164).get()).data()?.uid;
+  if (!uid || !(await db.collection('users').doc(uid).get()).exists) {
+    return response;
+  }
+
+  const code = randomInt(0, 1000000).toString().padStart(6, '0');
+  const salt = randomBytes(16).toString('hex');
+  const batch = db.batch();
+  batch.set(db.collection(RESETS_COLLECTION).doc(e164), {
+    uid,
+    codeHash: hashCode(code, salt),
+    salt,
+    attempts: 0,
+    status: 'pending',
+    expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + CODE_TTL_MS),
+    requestedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  batch.set(db.collection(AUDIT_COLLECTION).doc(), auditEntry('requested', uid, e164, ip));
+  await batch.commit();
+
+  try {
+    await otpDelivery().send(e164, `Your TALOWA PIN reset code is ${code}. It expires in 10 minutes. Do not share it.`);
+  } catch (error) {
+    logger.error(`PIN reset code delivery failed for ${uid}:`, error);
+    await db.collection(AUDIT_COLLECTION).add(auditEntry('delivery_failed', uid, e164, ip));
+    throw new HttpsError('unavailable', 'Could not send the reset code, try again later');
+  }
+
+  logger.info(`PIN reset code sent for ${uid}`);
+  return response;
+});
+
+/**
+ * confirmPinReset (callable)
+ *
+ * Checks the code and sets the new PIN. A code is single use, expires after
+ * 10 minutes and is void after 5 wrong attempts.
+ *
+ * Params: { e164, code, newPin }
+ * Returns: { ok: true }
+ * Errors: failed-precondition (no open reset, expired or exhausted),
+ *   permission-denied (wrong code, details.attemptsLeft)
+ */
+export const confirmPinReset = onCall(async (request) => {
+  const { code, newPin } = request.data || {};
+  const e164 = normalizePhone(request.data?.e164);
+  if (!e164 || typeof code !== 'string' || !isValidPin(newPin)) {
+    throw new HttpsError('invalid-argument', 'Phone number, code and a 6-digit PIN are required');
+  }
+
+  const ip = clientIp(request);
+  const newPinHash = await hashPin(newPin);
+  const resetRef = db.collection(RESETS_COLLECTION).doc(e164);
+
+  const outcome = await db.runTransaction(async (tx) => {
+    const resetSnap = await tx.get(resetRef);
+    const reset = resetSnap.data();
+    if (!reset || reset.status !== 'pending' || reset.expiresAt.toMillis() < Date.now()) {
+      return { result: 'unavailable' as const };
+    }
+
+    const userRef = db.collection('users').doc(reset.uid);
+    const userSnap = await tx.get(userRef);
+
+    const expected = Buffer.from(reset.codeHash);
+    const actual = Buffer.from(hashCode(code, reset.salt));
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      const attempts = reset.attempts + 1;
+      const exhausted = attempts >= MAX_CODE_ATTEMPTS;
+      tx.update(resetRef, { attempts, status: exhausted ? 'exhausted' : 'pending' });
+      tx.create(db.collection(AUDIT_COLLECTION).doc(),
+        auditEntry(exhausted ? 'attempts_exhausted' : 'code_rejected', reset.uid, e164, ip));
+      return { result: 'rejected' as const, attemptsLeft: MAX_CODE_ATTEMPTS - attempts };
+    }
+
+    if (!userSnap.exists) {
+      tx.update(resetRef, { status: 'void' });
+      return { result: 'unavailable' as const };
+    }
+
+    tx.update(userRef, {
+      ...pinUpdateFields(newPinHash),
+      'security.pinResetAt': admin.firestore.FieldValue.serverTimestamp(),
+    });
+    tx.update(resetRef, { status: 'used', usedAt: admin.firestore.FieldValue.serverTimestamp() });
+    tx.create(db.collection(AUDIT_COLLECTION).doc(), auditEntry('completed', reset.uid, e164, ip));
+    return { result: 'completed' as const, uid: reset.uid as string };
+  });
+
+  if (outcome.result === 'unavailable') {
+    throw new HttpsError('failed-precondition', 'No valid reset code for this number, request a new one');
+  }
+  if (outcome.result === 'rejected') {
+    throw new HttpsError('permission-denied', 'Incorrect reset code', { attemptsLeft: outcome.attemptsLeft });
+  }
+
+  await admin.auth().revokeRefreshTokens(outcome.uid);
+  logger.info(`PIN reset completed for ${outcome.uid}; refresh tokens revoked`);
+  return { ok: true };
+});
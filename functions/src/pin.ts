@@ -0,0 +1,260 @@
+/**
+ * PIN Credentials
+ * Server-side hashing and verification of the 6-digit login PIN.
+ *
+ * users/{uid}.security.pin = { algorithm: 'scrypt', hash, salt, N, r, p, keyLength }
+ *
+ * The cost parameters are stored with every hash, so they can be raised
+ * later without invalidating existing PINs. Older accounts carry the app's
+ * unsalted hash (sha256 of "v1:<pin>", hex) in security.pinHash or pinHash;
+ * verifyPin accepts it once and replaces it with a scrypt hash.
+ *
+ * Failed attempts lock the account for an exponentially growing period.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { createHash, randomBytes, scrypt, ScryptOptions, timingSafeEqual } from "crypto";
+import { normalizePhone } from "./phone";
+import { clientIp, consumeRateLimit } from "./rate-limit";
+
+const db = admin.firestore();
+
+const PIN_FORMAT = /^\d{6}$/;
+const LEGACY_HASH_VERSION = 'v1';
+
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1, keyLength: 32 };
+const SALT_BYTES = 16;
+
+// Failures allowed before the first lockout, and its length
+const FREE_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+const VERIFY_IP_LIMIT = { limit: 60, windowMs: 60 * 60 * 1000 };
+
+export interface PinHash {
+  algorithm: 'scrypt';
+  hash: string;
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+  keyLength: number;
+}
+
+export function isValidPin(pin: unknown): pin is string {
+  return typeof pin === 'string' && PIN_FORMAT.test(pin);
+}
+
+function scryptAsync(pin: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(pin, salt, keyLength, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+function deriveKey(pin: string, salt: Buffer, { N, r, p, keyLength }: Omit<PinHash, 'algorithm' | 'hash' | 'salt'>): Promise<Buffer> {
+  // scrypt needs 128 * N * r bytes; leave headroom over Node's 32 MB default
+  return scryptAsync(pin, salt, keyLength, { N, r, p, maxmem: 256 * N * r });
+}
+
+/**
+ * Salted scrypt hash of a PIN with the parameters used to make it
+ */
+export async function hashPin(pin: string): Promise<PinHash> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(pin, salt, SCRYPT_PARAMS);
+  return {
+    algorithm: 'scrypt',
+    hash: key.toString('base64'),
+    salt: salt.toString('base64'),
+    ...SCRYPT_PARAMS,
+  };
+}
+
+/**
+ * PIN hash fields for a registration: a scrypt hash when the PIN itself is
+ * sent, otherwise the legacy client hash from app versions that still send it
+ */
+export async function registrationPinFields(pin: unknown, pinHashHex: unknown): Promise<admin.firestore.DocumentData> {
+  if (pin != null) {
+    if (!isValidPin(pin)) throw new Error('INVALID_PIN');
+    return { pin: await hashPin(pin) };
+  }
+  if (typeof pinHashHex === 'string' && pinHashHex) {
+    return { pinHash: pinHashHex };
+  }
+  throw new Error('INVALID_ARGUMENT');
+}
+
+export async function verifyPinHash(pin: string, stored: PinHash): Promise<boolean> {
+  if (stored.algorithm !== 'scrypt') return false;
+  const expected = Buffer.from(stored.hash, 'base64');
+  const actual = await deriveKey(pin, Buffer.from(stored.salt, 'base64'), stored);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * The app's unsalted hash: sha256("v1:<pin>") as lowercase hex
+ */
+function verifyLegacyPinHash(pin: string, legacyHash: string): boolean {
+  const expected = Buffer.from(legacyHash.toLowerCase());
+  const actual = Buffer.from(createHash('sha256').update(`${LEGACY_HASH_VERSION}:${pin}`).digest('hex'));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * users/{uid} update that stores a new PIN hash, drops any legacy hash and
+ * clears the failure count
+ */
+export function pinUpdateFields(pin: PinHash): admin.firestore.DocumentData {
+  return {
+    'security.pin': pin,
+    'security.pinHash': admin.firestore.FieldValue.delete(),
+    'security.pinFailures': 0,
+    'security.pinLockedUntil': null,
+    pinHash: admin.firestore.FieldValue.delete(),
+  };
+}
+
+/**
+ * The stored credential a check was made against, to detect a PIN that
+ * changed before the result is recorded
+ */
+function credentialOf(data: admin.firestore.DocumentData): string | null {
+  const security = data.security || {};
+  if (security.pin) return `scrypt:${security.pin.hash}`;
+  const legacyHash = security.pinHash || data.pinHash;
+  return typeof legacyHash === 'string' ? `legacy:${legacyHash}` : null;
+}
+
+/**
+ * Check a PIN against a user document; a correct legacy PIN comes back
+ * with its scrypt replacement
+ */
+async function checkPin(
+  pin: string,
+  data: admin.firestore.DocumentData
+): Promise<{ valid: boolean; credential: string | null; upgraded: PinHash | null }> {
+  const security = data.security || {};
+  const credential = credentialOf(data);
+  const legacyHash: unknown = security.pinHash || data.pinHash;
+
+  if (security.pin) {
+    return { valid: await verifyPinHash(pin, security.pin), credential, upgraded: null };
+  }
+  if (typeof legacyHash === 'string') {
+    const valid = verifyLegacyPinHash(pin, legacyHash);
+    return { valid, credential, upgraded: valid ? await hashPin(pin) : null };
+  }
+  // Same work as a real check
+  await hashPin(pin);
+  return { valid: false, credential, upgraded: null };
+}
+
+export function lockoutMs(failures: number): number {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_LOCKOUT_MS);
+}
+
+/**
+ * verifyPin (callable)
+ *
+ * Login check for phone + PIN. Unknown numbers, accounts without a PIN
+ * and wrong PINs all fail with the same error. From the FREE_ATTEMPTS-th
+ * failure on, the account is locked for 30s, doubling per failure up to
+ * 24h; a correct PIN clears the count. A legacy hash is upgraded to scrypt
+ * on success.
+ *
+ * Params: { e164, pin }
+ * Returns: { ok: true, uid, token } where token is a Firebase custom token
+ * Errors: permission-denied (wrong phone or PIN), resource-exhausted
+ *   (locked, details.retryAfterMs)
+ */
+export const verifyPin = onCall(async (request) => {
+  const { e164: phoneInput, pin } = request.data || {};
+  if (!phoneInput || !isValidPin(pin)) {
+    throw new HttpsError('invalid-argument', 'Phone number and 6-digit PIN are required');
+  }
+
+  const ip = clientIp(request);
+  if (ip && !(await consumeRateLimit('verify_pin_ip', ip, VERIFY_IP_LIMIT)).allowed) {
+    throw new HttpsError('resource-exhausted', 'Too many attempts, try again later');
+  }
+
+  const invalid = () => new HttpsError('permission-denied', 'Invalid phone number or PIN');
+
+  const e164 = normalizePhone(phoneInput);
+  const phoneSnap = e164 ? await db.collection('phones').doc(e164).get() : null;
+  const uid: string | undefined = phoneSnap?.data()?.uid;
+  if (!uid) {
+    // Same work as a real check, so response time does not reveal membership
+    await hashPin(pin);
+    throw invalid();
+  }
+
+  const userRef = db.collection('users').doc(uid);
+  const userSnap = await userRef.get();
+  if (!userSnap.exists) {
+    await hashPin(pin);
+    throw invalid();
+  }
+
+  // Hash outside the transaction: Firestore retries its callback on
+  // contention, and scrypt is the expensive part
+  const checked = await checkPin(pin, userSnap.data()!);
+
+  const outcome = await db.runTransaction(async (tx) => {
+    const current = await tx.get(userRef);
+    const data = current.data() || {};
+    const security = data.security || {};
+
+    const lockedUntil = security.pinLockedUntil?.toMillis?.() ?? 0;
+    if (lockedUntil > Date.now()) {
+      return { result: 'locked' as const, retryAfterMs: lockedUntil - Date.now() };
+    }
+
+    // A PIN changed since it was checked (reset, upgrade) decides nothing
+    if (credentialOf(data) !== checked.credential) {
+      return { result: 'invalid' as const, failures: security.pinFailures || 0, retryAfterMs: 0 };
+    }
+
+    if (!checked.valid) {
+      const failures = (security.pinFailures || 0) + 1;
+      const lockMs = lockoutMs(failures);
+      tx.update(userRef, {
+        'security.pinFailures': failures,
+        'security.pinLockedUntil': lockMs ? admin.firestore.Timestamp.fromMillis(Date.now() + lockMs) : null,
+        'security.lastPinFailureAt': admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { result: 'invalid' as const, failures, retryAfterMs: lockMs };
+    }
+
+    tx.update(userRef, {
+      'security.pinFailures': 0,
+      'security.pinLockedUntil': null,
+      ...(checked.upgraded ? pinUpdateFields(checked.upgraded) : {}),
+      lastLoginAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { result: 'ok' as const, upgraded: !!checked.upgraded };
+  });
+
+  if (outcome.result === 'locked') {
+    throw new HttpsError('resource-exhausted', 'Too many failed attempts, try again later', {
+      retryAfterMs: outcome.retryAfterMs
+    });
+  }
+  if (outcome.result === 'invalid') {
+    if (outcome.retryAfterMs) {
+      logger.warn(`PIN locked for ${uid} after ${outcome.failures} failures`);
+    }
+    throw invalid();
+  }
+
+  if (outcome.upgraded) {
+    logger.info(`Upgraded legacy PIN hash for ${uid}`);
+  }
+  const token = await admin.auth().createCustomToken(uid);
+  return { ok: true, uid, token };
+});
@@ -0,0 +1,71 @@
+/**
+ * Rate Limits
+ * Fixed-window request counters in rate_limits/{scope}_{keyHash}.
+ *
+ * Keys (IP addresses, device ids) are stored only as SHA-256 hashes. The
+ * counter is updated in a transaction, so concurrent instances share it.
+ */
+
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import type { CallableRequest } from "firebase-functions/v2/https";
+
+const db = admin.firestore();
+
+export const RATE_LIMITS_COLLECTION = 'rate_limits';
+
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  count: number;
+  keyHash: string;
+  windowStart: number;
+}
+
+export function hashRateLimitKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 32);
+}
+
+/**
+ * Count one request against scope/key and report whether it is within the limit
+ */
+export async function consumeRateLimit(scope: string, key: string, { limit, windowMs }: RateLimit): Promise<RateLimitResult> {
+  const keyHash = hashRateLimitKey(key);
+  const ref = db.collection(RATE_LIMITS_COLLECTION).doc(`${scope}_${keyHash}`);
+  const now = Date.now();
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const data = snap.data();
+    const sameWindow = data && now - data.windowStart < windowMs;
+
+    const windowStart: number = sameWindow ? data.windowStart : now;
+    const count = (sameWindow ? data.count : 0) + 1;
+
+    tx.set(ref, {
+      scope,
+      count,
+      windowStart,
+      // For a TTL policy on rate_limits
+      expiresAt: admin.firestore.Timestamp.fromMillis(windowStart + windowMs),
+    });
+
+    return { allowed: count <= limit, count, keyHash, windowStart };
+  });
+}
+
+/**
+ * Client IP of a callable request, as seen by Google's front end. The front
+ * end appends the address it saw to x-forwarded-for, so only the last entry
+ * is trustworthy; earlier ones are whatever the caller sent.
+ */
+export function clientIp(request: CallableRequest): string | null {
+  const forwarded = request.rawRequest?.headers?.['x-forwarded-for'];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '').split(',');
+  const last = hops[hops.length - 1].trim();
+  return last || request.rawRequest?.ip || null;
+}
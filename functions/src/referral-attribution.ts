@@ -0,0 +1,145 @@
+/**
+ * Referral Attribution
+ * A member's referral moves through pending -> confirmed -> revoked.
+ *
+ * New registrations start as pending. The upline is only credited (and so
+ * only counts toward promotion) once the referral is confirmed, which happens
+ * when the member's profile is complete or verified, unless field
+ * verification rejected them. A reversal marks the referral as revoked.
+ *
+ * Users without a referralStatus predate this flow and are treated as
+ * confirmed, but their upline is still only credited while the referral is
+ * confirmable. profileCompleted is set by registration, not by the member.
+ */
+
+import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { verificationStatusOf } from "./member-verification";
+import { isReferralWithheld } from "./registration-review";
+import { creditUpline, UplineCredit } from "./referral-ledger";
+import { normalizeUser } from "./user-model";
+import {
+  AncestorPath,
+  hasAncestorPath,
+  sanitizeAncestorPath,
+  walkAncestorPath,
+} from "./referral-path";
+
+const db = admin.firestore();
+
+export type ReferralStatus = 'pending' | 'confirmed' | 'revoked';
+
+/**
+ * Effective referral status of a user document. Documents from before
+ * this lifecycle have no status and count as confirmed only when they are
+ * confirmable.
+ */
+export function referralStatusOf(userData: admin.firestore.DocumentData): ReferralStatus {
+  const status = userData.referralStatus;
+  if (status === 'pending' || status === 'confirmed' || status === 'revoked') return status;
+  return isReferralConfirmable(userData) ? 'confirmed' : 'pending';
+}
+
+/**
+ * Whether a user's referral can count: complete or verified profile, not
+ * rejected in field verification and not held in registration review
+ */
+export function isReferralConfirmable(userData: admin.firestore.DocumentData): boolean {
+  const verification = verificationStatusOf(userData);
+  if (verification === 'rejected' || isReferralWithheld(userData)) return false;
+  return userData.profileCompleted === true || verification === 'verified';
+}
+
+/**
+ * Return the user's ancestor path, storing it on the document if it had to
+ * be rebuilt. Uses the materialized path when registration assigned one,
+ * otherwise walks the chain once.
+ */
+export async function resolveAncestorPath(
+  userId: string,
+  userData: admin.firestore.DocumentData,
+  referredByCode: string
+): Promise<AncestorPath> {
+  const userRef = db.collection('users').doc(userId);
+
+  if (hasAncestorPath(userData) && userData.referredBy === referredByCode) {
+    const path = await sanitizeAncestorPath(userId, userData.ancestorIds);
+    if (path.ancestorDepth !== userData.ancestorDepth) {
+      await userRef.update({ ...path });
+    }
+    return path;
+  }
+
+  const path = await walkAncestorPath(userId, referredByCode);
+  await userRef.update({ ...path });
+  logger.log(`Stored ancestor path of depth ${path.ancestorDepth} for ${userId}`);
+  return path;
+}
+
+/**
+ * Credit the upline for a user and mark the referral confirmed.
+ * Safe to call repeatedly: the ledger skips credits already given.
+ * Returns the number of ancestors credited by this call; throws
+ * REFERRAL_NOT_CONFIRMABLE for a user whose referral may not count yet.
+ */
+export async function confirmReferral(
+  userId: string,
+  userData: admin.firestore.DocumentData,
+  referredByCode: string
+): Promise<number> {
+  if (referralStatusOf(userData) === 'revoked' || !isReferralConfirmable(userData)) {
+    throw new Error('REFERRAL_NOT_CONFIRMABLE');
+  }
+
+  const path = await resolveAncestorPath(userId, userData, referredByCode);
+
+  // First person in chain gets direct credit, upline members get team credit
+  const upline: UplineCredit[] = path.ancestorIds.map((ancestorId, index) => ({
+    ancestorId,
+    depth: index + 1,
+  }));
+
+  // Record ledger entries and counters in a single transaction
+  const joinedAt = userData.createdAt instanceof admin.firestore.Timestamp ? userData.createdAt : null;
+  const credited = await creditUpline(userId, referredByCode, upline, joinedAt);
+  logger.log(`Credited ${credited} of ${upline.length} referrers up the chain for ${userId}.`);
+
+  if (userData.referralStatus !== 'confirmed') {
+    await db.collection('users').doc(userId).update({
+      referralStatus: 'confirmed',
+      referralConfirmedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  return credited;
+}
+
+/**
+ * Confirm a pending referral once the member's profile is complete or verified
+ */
+export const confirmReferralOnProfileUpdate = onDocumentUpdated('users/{userId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (!after || !isReferralConfirmable(after)) {
+    return;
+  }
+  // Documents without a status are pending until they first become confirmable
+  const pending = after.referralStatus === 'pending' ||
+    (after.referralStatus === undefined && !!before && !isReferralConfirmable(before));
+  if (!pending) {
+    return;
+  }
+
+  // Users who never ran processReferral are placed under admin there, not here
+  const { referredBy } = normalizeUser(event.params.userId, after);
+  if (!referredBy) {
+    return;
+  }
+
+  try {
+    await confirmReferral(event.params.userId, after, referredBy);
+  } catch (error) {
+    logger.error(`Failed to confirm referral for ${event.params.userId}:`, error);
+  }
+});
@@ -0,0 +1,351 @@
+/**
+ * Identity Consistency Auditor
+ * Nightly check of the invariants between users, phones, user_registry and
+ * referralCodes. Every run writes a categorized findings report:
+ *
+ * consistency_audits/{auditId}                       { counts, totalFindings, ... }
+ * consistency_audits/{auditId}/findings/{findingId}  { type, status, ...subject }
+ *
+ * Each finding type has its own admin callable that applies the fix. Fixes
+ * re-check the finding against live data first, so a report that has gone
+ * stale cannot undo a later change.
+ */
+
+import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { requireAdmin } from "./admin-guard";
+import { logAdminAction } from "./admin-system";
+import { isNormalizedPhone } from "./phone";
+import { isValidReferralCodeFormat, isVanityCode, reserveNewReferralCode } from "./referral-code";
+import { normalizeUser } from "./user-model";
+
+const db = admin.firestore();
+
+const AUDITS_COLLECTION = 'consistency_audits';
+const MAX_FIXES_PER_CALL = 200;
+
+export const FINDING_TYPES = [
+  // referralCodes/{code}.uid points to a user that no longer exists
+  'orphaned_code_reservation',
+  // users.referralCode has no referralCodes reservation
+  'unreserved_user_code',
+  // users.referralCode is reserved for a different, existing user
+  'code_owner_conflict',
+  // users.referralCode fails isValidReferralCodeFormat
+  'invalid_code_format',
+  // phones/{e164}.uid points to a user that no longer exists
+  'phone_claimed_by_deleted_uid',
+  // user_registry/{e164}.uid points to a user that no longer exists
+  'registry_claimed_by_deleted_uid',
+  // A user's E.164 phone has no phones claim at all
+  'missing_phone_claim',
+] as const;
+
+export type FindingType = typeof FINDING_TYPES[number];
+
+export interface Finding {
+  type: FindingType;
+  uid?: string;
+  code?: string;
+  phone?: string;
+  ownerUid?: string;
+}
+
+type FixOutcome = 'fixed' | 'stale';
+
+function userPhone(uid: string, userData: admin.firestore.DocumentData): string | null {
+  return normalizeUser(uid, userData).phoneE164;
+}
+
+function findingId(finding: Finding): string {
+  const key = finding.code || finding.phone || finding.uid || 'unknown';
+  return `${finding.type}_${key}`.replace(/\//g, '_');
+}
+
+/**
+ * Scan all four collections and return every broken invariant
+ */
+export async function collectFindings(): Promise<Finding[]> {
+  const [usersSnapshot, phonesSnapshot, registrySnapshot, codesSnapshot] = await Promise.all([
+    db.collection('users').select('referralCode', 'vanityCodeAt', 'phoneE164', 'phoneNumber', 'phone').get(),
+    db.collection('phones').select('uid').get(),
+    db.collection('user_registry').select('uid').get(),
+    db.collection('referralCodes').select('uid', 'retiredAt').get(),
+  ]);
+
+  const userIds = new Set(usersSnapshot.docs.map((doc) => doc.id));
+  const phoneClaims = new Set(phonesSnapshot.docs.map((doc) => doc.id));
+  const codeOwners = new Map<string, string | undefined>();
+  const findings: Finding[] = [];
+
+  for (const doc of codesSnapshot.docs) {
+    const { uid, retiredAt } = doc.data();
+    if (retiredAt) continue;
+    codeOwners.set(doc.id, uid);
+    if (uid && !userIds.has(uid)) {
+      findings.push({ type: 'orphaned_code_reservation', code: doc.id, ownerUid: uid });
+    }
+  }
+
+  for (const doc of phonesSnapshot.docs) {
+    const uid = doc.data().uid;
+    if (uid && !userIds.has(uid)) {
+      findings.push({ type: 'phone_claimed_by_deleted_uid', phone: doc.id, uid });
+    }
+  }
+
+  for (const doc of registrySnapshot.docs) {
+    const uid = doc.data().uid;
+    if (uid && !userIds.has(uid)) {
+      findings.push({ type: 'registry_claimed_by_deleted_uid', phone: doc.id, uid });
+    }
+  }
+
+  for (const doc of usersSnapshot.docs) {
+    const data = doc.data();
+    const code: string | undefined = data.referralCode;
+
+    if (code) {
+      if (!isValidReferralCodeFormat(code) && !isVanityCode(code, data)) {
+        findings.push({ type: 'invalid_code_format', uid: doc.id, code });
+      } else if (!codeOwners.has(code)) {
+        findings.push({ type: 'unreserved_user_code', uid: doc.id, code });
+      } else if (codeOwners.get(code) !== doc.id && userIds.has(codeOwners.get(code)!)) {
+        findings.push({ type: 'code_owner_conflict', uid: doc.id, code, ownerUid: codeOwners.get(code) });
+      }
+    }
+
+    // Only E.164 numbers can be claimed; other formats are left to the phone migration
+    const phone = userPhone(doc.id, data);
+    if (isNormalizedPhone(phone) && !phoneClaims.has(phone)) {
+      findings.push({ type: 'missing_phone_claim', uid: doc.id, phone });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Run the audit and store the findings report. Returns the report id.
+ */
+export async function runConsistencyAudit(triggeredBy: string): Promise<{ auditId: string; totalFindings: number }> {
+  const findings = await collectFindings();
+
+  const counts = Object.fromEntries(FINDING_TYPES.map((type) => [type, 0])) as Record<FindingType, number>;
+  for (const finding of findings) counts[finding.type]++;
+
+  const auditRef = db.collection(AUDITS_COLLECTION).doc();
+  const writer = db.bulkWriter();
+  for (const finding of findings) {
+    writer.set(auditRef.collection('findings').doc(findingId(finding)), {
+      ...finding,
+      status: 'open',
+    });
+  }
+  writer.set(auditRef, {
+    triggeredBy,
+    counts,
+    totalFindings: findings.length,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await writer.close();
+
+  logger.info(`Consistency audit ${auditRef.id}: ${findings.length} findings`, counts);
+  return { auditId: auditRef.id, totalFindings: findings.length };
+}
+
+/**
+ * Nightly audit
+ */
+export const scheduledConsistencyAudit = onSchedule(
+  { schedule: 'every day 01:00', timeZone: 'Asia/Kolkata', timeoutSeconds: 540, memory: '1GiB' },
+  async () => {
+    await runConsistencyAudit('scheduler');
+  }
+);
+
+/**
+ * runConsistencyAuditNow (callable)
+ *
+ * ADMIN ONLY: Runs the audit immediately.
+ *
+ * Returns: { auditId, totalFindings }
+ */
+export const runConsistencyAuditNow = onCall(async (request) => {
+  const adminUid = await requireAdmin(request);
+  return runConsistencyAudit(adminUid);
+});
+
+async function userExists(uid: string | undefined, tx: admin.firestore.Transaction): Promise<boolean> {
+  if (!uid) return false;
+  return (await tx.get(db.collection('users').doc(uid))).exists;
+}
+
+/**
+ * Give a user a fresh code in users and their own registry entry.
+ * The old code stays as an alias unless it is reserved for someone else,
+ * so members registered under it keep their place in the tree.
+ */
+async function reissueUserCode(uid: string, oldCode: string, tx: admin.firestore.Transaction): Promise<FixOutcome> {
+  const userRef = db.collection('users').doc(uid);
+  const userSnap = await tx.get(userRef);
+  if (!userSnap.exists || userSnap.data()!.referralCode !== oldCode) return 'stale';
+
+  const phone = userPhone(uid, userSnap.data()!);
+  const registryRef = phone ? db.collection('user_registry').doc(phone) : null;
+  const registrySnap = registryRef ? await tx.get(registryRef) : null;
+  const oldReservation = await tx.get(db.collection('referralCodes').doc(oldCode));
+
+  const newCode = await reserveNewReferralCode(tx, uid);
+  const update: admin.firestore.DocumentData = { referralCode: newCode };
+  if (!oldReservation.exists || oldReservation.data()?.uid === uid) {
+    tx.set(oldReservation.ref, { uid, aliasOf: newCode }, { merge: true });
+    update.referralCodeAliases = admin.firestore.FieldValue.arrayUnion(oldCode);
+  }
+  tx.update(userRef, update);
+  if (registrySnap?.exists && registrySnap.data()?.uid === uid) {
+    tx.update(registryRef!, { referralCode: newCode });
+  }
+  return 'fixed';
+}
+
+/**
+ * How to fix each finding type, re-checked inside a transaction
+ */
+const FIXERS: Record<FindingType, (finding: Finding, tx: admin.firestore.Transaction) => Promise<FixOutcome>> = {
+  // Retire rather than delete, so a printed code is never handed to someone else
+  orphaned_code_reservation: async (finding, tx) => {
+    const codeRef = db.collection('referralCodes').doc(finding.code!);
+    const codeSnap = await tx.get(codeRef);
+    const ownerUid = codeSnap.data()?.uid;
+    if (!ownerUid || codeSnap.data()?.retiredAt || await userExists(ownerUid, tx)) return 'stale';
+
+    tx.update(codeRef, {
+      uid: admin.firestore.FieldValue.delete(),
+      formerUid: ownerUid,
+      retiredAt: admin.firestore.FieldValue.serverTimestamp(),
+      retiredReason: 'owner_deleted',
+    });
+    return 'fixed';
+  },
+
+  unreserved_user_code: async (finding, tx) => {
+    const codeRef = db.collection('referralCodes').doc(finding.code!);
+    const [codeSnap, userSnap] = await tx.getAll(codeRef, db.collection('users').doc(finding.uid!));
+    if (codeSnap.exists || !userSnap.exists || normalizeUser(userSnap.id, userSnap.data()!).referralCode !== finding.code) return 'stale';
+
+    tx.create(codeRef, { uid: finding.uid, createdAt: admin.firestore.FieldValue.serverTimestamp() });
+    return 'fixed';
+  },
+
+  // The reservation owner keeps the code; the other holder gets a new one
+  code_owner_conflict: async (finding, tx) => {
+    const codeSnap = await tx.get(db.collection('referralCodes').doc(finding.code!));
+    const ownerUid = codeSnap.data()?.uid;
+    if (!ownerUid || ownerUid === finding.uid) return 'stale';
+    return reissueUserCode(finding.uid!, finding.code!, tx);
+  },
+
+  invalid_code_format: async (finding, tx) => reissueUserCode(finding.uid!, finding.code!, tx),
+
+  phone_claimed_by_deleted_uid: async (finding, tx) => {
+    const phoneRef = db.collection('phones').doc(finding.phone!);
+    const phoneSnap = await tx.get(phoneRef);
+    const uid = phoneSnap.data()?.uid;
+    if (!uid || await userExists(uid, tx)) return 'stale';
+    tx.delete(phoneRef);
+    return 'fixed';
+  },
+
+  registry_claimed_by_deleted_uid: async (finding, tx) => {
+    const registryRef = db.collection('user_registry').doc(finding.phone!);
+    const registrySnap = await tx.get(registryRef);
+    const uid = registrySnap.data()?.uid;
+    if (!uid || await userExists(uid, tx)) return 'stale';
+    tx.delete(registryRef);
+    return 'fixed';
+  },
+
+  missing_phone_claim: async (finding, tx) => {
+    const phoneRef = db.collection('phones').doc(finding.phone!);
+    const [phoneSnap, userSnap] = await tx.getAll(phoneRef, db.collection('users').doc(finding.uid!));
+    if (phoneSnap.exists || !userSnap.exists || userPhone(finding.uid!, userSnap.data()!) !== finding.phone) return 'stale';
+    tx.create(phoneRef, { uid: finding.uid, claimedAt: admin.firestore.FieldValue.serverTimestamp() });
+    return 'fixed';
+  },
+};
+
+/**
+ * Apply the fix for one finding type to the open findings of an audit.
+ * Params: { auditId, findingIds? }  (all open findings of the type by default)
+ * Returns: { type, fixed, stale, failed }
+ */
+async function fixFindings(request: CallableRequest, type: FindingType) {
+  const adminUid = await requireAdmin(request);
+
+  const { auditId, findingIds } = request.data || {};
+  if (!auditId || typeof auditId !== 'string') {
+    throw new HttpsError('invalid-argument', 'auditId is required');
+  }
+  if (findingIds !== undefined && !Array.isArray(findingIds)) {
+    throw new HttpsError('invalid-argument', 'findingIds must be an array');
+  }
+
+  const findingsRef = db.collection(AUDITS_COLLECTION).doc(auditId).collection('findings');
+  let query = findingsRef.where('type', '==', type).where('status', '==', 'open');
+  if (findingIds?.length) {
+    query = query.where(admin.firestore.FieldPath.documentId(), 'in', findingIds.slice(0, 30));
+  }
+  const snapshot = await query.limit(MAX_FIXES_PER_CALL).get();
+
+  const result = { type, fixed: 0, stale: 0, failed: 0 };
+  for (const doc of snapshot.docs) {
+    const finding = doc.data() as Finding;
+    try {
+      const outcome = await db.runTransaction((tx) => FIXERS[type](finding, tx));
+      await doc.ref.update({
+        status: outcome,
+        resolvedBy: adminUid,
+        resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      result[outcome]++;
+    } catch (error: any) {
+      logger.error(`Failed to fix ${type} finding ${doc.id}:`, error);
+      await doc.ref.update({ lastError: String(error?.message || error) });
+      result.failed++;
+    }
+  }
+
+  await logAdminAction({
+    adminUid,
+    action: `consistency_fix_${type}`,
+    details: { auditId, ...result },
+    timestamp: admin.firestore.FieldValue.serverTimestamp()
+  });
+
+  logger.info(`Consistency fix ${type} on audit ${auditId}: ${result.fixed} fixed, ${result.stale} stale, ${result.failed} failed`);
+  return result;
+}
+
+/** ADMIN ONLY: Retire code reservations whose owner no longer exists */
+export const fixOrphanedCodeReservations = onCall((request) => fixFindings(request, 'orphaned_code_reservation'));
+
+/** ADMIN ONLY: Reserve users' codes that have no referralCodes entry */
+export const fixUnreservedUserCodes = onCall((request) => fixFindings(request, 'unreserved_user_code'));
+
+/** ADMIN ONLY: Give a new code to users holding a code reserved for someone else */
+export const fixCodeOwnerConflicts = onCall((request) => fixFindings(request, 'code_owner_conflict'));
+
+/** ADMIN ONLY: Replace codes that fail the format check, keeping them as aliases */
+export const fixInvalidReferralCodes = onCall((request) => fixFindings(request, 'invalid_code_format'));
+
+/** ADMIN ONLY: Release phone claims held by deleted users */
+export const fixOrphanedPhoneClaims = onCall((request) => fixFindings(request, 'phone_claimed_by_deleted_uid'));
+
+/** ADMIN ONLY: Remove user_registry entries of deleted users */
+export const fixOrphanedRegistryEntries = onCall((request) => fixFindings(request, 'registry_claimed_by_deleted_uid'));
+
+/** ADMIN ONLY: Create the missing phones claim for a user's phone */
+export const fixMissingPhoneClaims = onCall((request) => fixFindings(request, 'missing_phone_claim'));
@@ -0,0 +1,326 @@
+/**
+ * Campaign Referral Codes
+ * Extra codes a member can hand out for a recruitment drive, on top of their
+ * one permanent code. A campaign code lives in referralCodes like any other
+ * code, so it resolves to its owner everywhere, and carries its limits:
+ *
+ * referralCodes/{code} {
+ *   uid, kind: 'campaign', campaignId, campaignName,
+ *   expiresAt, maxUses, useCount, targetRegion, targetLocationCodes,
+ *   active, issuedBy, createdAt
+ * }
+ *
+ * The target region is resolved against the reference geography when the
+ * code is issued, and matched by location code wherever both the target and
+ * the member have one.
+ *
+ * Members who sign up with a campaign code are placed under the owner's
+ * permanent code (users.referredBy) and remember the campaign in
+ * users.referralCampaign = { campaignId, code, attributedAt }.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { isAdminUser } from "./admin-guard";
+import { LocationCodes, resolveLocation, storedLocationCodes } from "./geography";
+import { reserveNewReferralCode } from "./referral-code";
+import { Region, REGION_LEVELS, regionOf, sameRegionName } from "./region";
+import { getUser, normalizeUser } from "./user-model";
+
+const db = admin.firestore();
+
+export const CAMPAIGN_CODE_KIND = 'campaign';
+
+// Area Coordinator and above may issue codes for their own drives
+const COORDINATOR_MIN_LEVEL = 4;
+const MAX_CODES_PER_STATS_CALL = 100;
+const CAMPAIGN_ID_PATTERN = /^[A-Za-z0-9_-]{3,64}$/;
+
+export interface CampaignCode {
+  uid: string;
+  kind: typeof CAMPAIGN_CODE_KIND;
+  campaignId: string;
+  campaignName: string | null;
+  expiresAt: admin.firestore.Timestamp | null;
+  maxUses: number | null;
+  useCount: number;
+  targetRegion: Region | null;
+  // Missing on codes issued before targets were resolved
+  targetLocationCodes?: LocationCodes | null;
+  active: boolean;
+  issuedBy: string;
+}
+
+export type CampaignCodeProblem =
+  | 'CAMPAIGN_CODE_INACTIVE'
+  | 'CAMPAIGN_CODE_EXPIRED'
+  | 'CAMPAIGN_CODE_EXHAUSTED'
+  | 'CAMPAIGN_CODE_REGION_MISMATCH';
+
+export function isCampaignCode(codeData: admin.firestore.DocumentData | undefined): codeData is CampaignCode {
+  return codeData?.kind === CAMPAIGN_CODE_KIND;
+}
+
+/**
+ * Why a campaign code cannot take another sign-up from a region, or null
+ * when it can. Every level set on the target region must match, by code
+ * when both sides have one and by name otherwise.
+ */
+export function campaignCodeProblem(
+  code: CampaignCode,
+  region: Region,
+  codes?: Partial<LocationCodes>
+): CampaignCodeProblem | null {
+  if (code.active === false) return 'CAMPAIGN_CODE_INACTIVE';
+  if (code.expiresAt && code.expiresAt.toMillis() <= Date.now()) return 'CAMPAIGN_CODE_EXPIRED';
+  if (code.maxUses != null && (code.useCount || 0) >= code.maxUses) return 'CAMPAIGN_CODE_EXHAUSTED';
+
+  if (code.targetRegion) {
+    for (const level of REGION_LEVELS) {
+      const target = code.targetRegion[level];
+      if (!target) continue;
+
+      const targetCode = code.targetLocationCodes?.[level];
+      const actualCode = codes?.[level];
+      if (targetCode && actualCode) {
+        if (targetCode !== actualCode) return 'CAMPAIGN_CODE_REGION_MISMATCH';
+        continue;
+      }
+
+      const actual = region[level];
+      if (!actual || !sameRegionName(target, actual)) {
+        return 'CAMPAIGN_CODE_REGION_MISMATCH';
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * User fields recording the campaign a sign-up came from
+ */
+export function campaignAttributionFields(code: string, campaign: CampaignCode): admin.firestore.DocumentData {
+  return {
+    referralCampaign: {
+      campaignId: campaign.campaignId,
+      code,
+      attributedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }
+  };
+}
+
+/**
+ * Count one use of a campaign code. A write: call after all transaction reads.
+ */
+export function redeemCampaignCode(tx: admin.firestore.Transaction, code: string): void {
+  tx.update(db.collection('referralCodes').doc(code), {
+    useCount: admin.firestore.FieldValue.increment(1),
+    lastUsedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * If a user's referredBy is a campaign code, swap it for the owner's permanent
+ * code and record the campaign, counting the use once. A code that is past
+ * its limits still places the member under its owner, without campaign credit.
+ * Returns the code the referral chain should be walked from.
+ */
+export async function resolveCampaignReferral(userId: string, referredByCode: string): Promise<string> {
+  const codeRef = db.collection('referralCodes').doc(referredByCode);
+  const userRef = db.collection('users').doc(userId);
+
+  return db.runTransaction(async (tx) => {
+    const codeSnap = await tx.get(codeRef);
+    const campaign = codeSnap.data();
+    if (!isCampaignCode(campaign)) return referredByCode;
+
+    const [ownerSnap, userSnap] = await tx.getAll(db.collection('users').doc(campaign.uid), userRef);
+    const ownerCode = ownerSnap.exists ? normalizeUser(ownerSnap.id, ownerSnap.data()!).referralCode : null;
+    if (!ownerCode || !userSnap.exists) {
+      logger.warn(`Campaign code ${referredByCode} owner ${campaign.uid} has no permanent code`);
+      return referredByCode;
+    }
+
+    const userData = userSnap.data()!;
+    const update: admin.firestore.DocumentData = { referredBy: ownerCode };
+
+    if (userData.referralCampaign?.code !== referredByCode) {
+      const problem = campaignCodeProblem(campaign, regionOf(userData), storedLocationCodes(userData));
+      if (problem) {
+        logger.warn(`Campaign code ${referredByCode} not credited for ${userId}: ${problem}`);
+      } else {
+        Object.assign(update, campaignAttributionFields(referredByCode, campaign));
+        redeemCampaignCode(tx, referredByCode);
+      }
+    }
+
+    tx.update(userRef, update);
+    return ownerCode as string;
+  });
+}
+
+function parseExpiry(value: unknown): admin.firestore.Timestamp | null {
+  if (value == null) return null;
+
+  const date = new Date(value as string | number);
+  if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+    throw new HttpsError('invalid-argument', 'expiresAt must be a future date');
+  }
+  return admin.firestore.Timestamp.fromDate(date);
+}
+
+function parseTargetRegion(value: unknown): { region: Region; codes: LocationCodes } | null {
+  if (value == null) return null;
+  if (typeof value !== 'object') {
+    throw new HttpsError('invalid-argument', 'targetRegion must be an object of state, district, mandal and village');
+  }
+
+  const resolution = resolveLocation(value as admin.firestore.DocumentData);
+  if (!resolution.ok) {
+    throw new HttpsError('invalid-argument', `targetRegion is not a known location (${resolution.problem})`);
+  }
+  return Object.keys(resolution.region).length ? { region: resolution.region, codes: resolution.codes } : null;
+}
+
+async function isCoordinator(uid: string): Promise<boolean> {
+  const user = await getUser(uid);
+  return !!user && user.currentRoleLevel >= COORDINATOR_MIN_LEVEL;
+}
+
+/**
+ * issueCampaignReferralCode (callable)
+ *
+ * Admins and coordinators issue an extra code tied to a campaign.
+ * Coordinators issue codes for themselves; admins may pass ownerUid.
+ *
+ * Params: { campaignId, campaignName?, expiresAt?, maxUses?, targetRegion?, ownerUid? }
+ * Returns: { code, campaignId, ownerUid, expiresAt, maxUses, targetRegion, targetLocationCodes }
+ */
+export const issueCampaignReferralCode = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) throw new HttpsError('unauthenticated', 'User must be authenticated');
+
+  const isAdmin = await isAdminUser(uid, request.auth?.token.role);
+  if (!isAdmin && !(await isCoordinator(uid))) {
+    throw new HttpsError('permission-denied', 'Only admins and coordinators can issue campaign codes');
+  }
+
+  const { campaignId, campaignName, expiresAt, maxUses, targetRegion, ownerUid = uid } = request.data || {};
+
+  if (typeof campaignId !== 'string' || !CAMPAIGN_ID_PATTERN.test(campaignId)) {
+    throw new HttpsError('invalid-argument', 'campaignId must be 3-64 letters, digits, dashes or underscores');
+  }
+  if (ownerUid !== uid && !isAdmin) {
+    throw new HttpsError('permission-denied', 'Coordinators can only issue codes for themselves');
+  }
+  if (maxUses != null && (!Number.isInteger(maxUses) || maxUses < 1)) {
+    throw new HttpsError('invalid-argument', 'maxUses must be a positive integer');
+  }
+
+  const target = parseTargetRegion(targetRegion);
+  const campaign = {
+    kind: CAMPAIGN_CODE_KIND,
+    campaignId,
+    campaignName: typeof campaignName === 'string' ? campaignName.trim() || null : null,
+    expiresAt: parseExpiry(expiresAt),
+    maxUses: maxUses ?? null,
+    useCount: 0,
+    targetRegion: target?.region ?? null,
+    targetLocationCodes: target?.codes ?? null,
+    active: true,
+    issuedBy: uid,
+  };
+
+  const code = await db.runTransaction(async (tx) => {
+    const owner = await getUser(ownerUid, tx);
+    if (!owner) {
+      throw new HttpsError('not-found', 'Code owner not found');
+    }
+    if (!owner.referralCode) {
+      throw new HttpsError('failed-precondition', 'Code owner has no permanent referral code yet');
+    }
+    return reserveNewReferralCode(tx, ownerUid, campaign);
+  });
+
+  logger.info(`Issued campaign code ${code} (${campaignId}) for ${ownerUid} by ${uid}`);
+
+  return {
+    code,
+    campaignId,
+    ownerUid,
+    expiresAt: campaign.expiresAt?.toDate().toISOString() ?? null,
+    maxUses: campaign.maxUses,
+    targetRegion: campaign.targetRegion,
+    targetLocationCodes: campaign.targetLocationCodes,
+  };
+});
+
+/**
+ * getReferralCampaignStats (callable)
+ *
+ * Sign-ups per code for a campaign. Admins see every code of the campaign,
+ * coordinators only the codes they own.
+ *
+ * Params: { campaignId }
+ * Returns: {
+ *   campaignId, totalSignups, confirmedSignups,
+ *   codes: Array<{code, ownerUid, useCount, maxUses, expiresAt, active, signups, confirmed}>
+ * }
+ */
+export const getReferralCampaignStats = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) throw new HttpsError('unauthenticated', 'User must be authenticated');
+
+  const isAdmin = await isAdminUser(uid, request.auth?.token.role);
+  if (!isAdmin && !(await isCoordinator(uid))) {
+    throw new HttpsError('permission-denied', 'Only admins and coordinators can view campaign stats');
+  }
+
+  const campaignId = request.data?.campaignId;
+  if (typeof campaignId !== 'string' || !CAMPAIGN_ID_PATTERN.test(campaignId)) {
+    throw new HttpsError('invalid-argument', 'campaignId is required');
+  }
+
+  let codesQuery = db.collection('referralCodes')
+    .where('kind', '==', CAMPAIGN_CODE_KIND)
+    .where('campaignId', '==', campaignId);
+  if (!isAdmin) {
+    codesQuery = codesQuery.where('uid', '==', uid);
+  }
+
+  try {
+    const codesSnapshot = await codesQuery.limit(MAX_CODES_PER_STATS_CALL).get();
+
+    const codes = await Promise.all(codesSnapshot.docs.map(async (doc) => {
+      const data = doc.data();
+      const signupsQuery = db.collection('users').where('referralCampaign.code', '==', doc.id);
+      const [signups, confirmed] = await Promise.all([
+        signupsQuery.count().get(),
+        signupsQuery.where('referralStatus', '==', 'confirmed').count().get(),
+      ]);
+
+      return {
+        code: doc.id,
+        ownerUid: data.uid,
+        useCount: data.useCount || 0,
+        maxUses: data.maxUses ?? null,
+        expiresAt: data.expiresAt?.toDate().toISOString() ?? null,
+        active: data.active !== false,
+        signups: signups.data().count,
+        confirmed: confirmed.data().count,
+      };
+    }));
+
+    return {
+      campaignId,
+      totalSignups: codes.reduce((sum, code) => sum + code.signups, 0),
+      confirmedSignups: codes.reduce((sum, code) => sum + code.confirmed, 0),
+      codes,
+    };
+  } catch (error) {
+    logger.error(`Failed to load stats for campaign ${campaignId}:`, error);
+    throw new HttpsError('internal', 'Failed to load campaign stats');
+  }
+});
@@ -0,0 +1,174 @@
+/**
+ * Talowa Referral Code Generator
+ * Single source for issuing referral codes.
+ *
+ * Codes are "TAL" followed by 6 random characters and 1 check character, all
+ * drawn from an alphabet without the look-alike characters 0, 1, O, I and L.
+ * The check character catches any single mistyped character and any swap
+ * of two characters.
+ */
+
+import { randomInt } from "crypto";
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+export const REFERRAL_CODE_PREFIX = 'TAL';
+export const REFERRAL_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+
+const RANDOM_LENGTH = 6;
+const MAX_RESERVE_ATTEMPTS = 10;
+
+/**
+ * Shape of a generated code (legacy codes have no check character)
+ */
+export function isGeneratedReferralCodeFormat(code: string): boolean {
+  if (!code || typeof code !== 'string') return false;
+  const normalized = code.toUpperCase().trim();
+  return /^TAL[23456789ABCDEFGHJKMNPQRSTUVWXYZ]{7,8}$/.test(normalized);
+}
+
+/**
+ * Shape of a vanity code: "TAL" followed by 4 to 12 letters or digits
+ */
+export function isVanityReferralCodeFormat(code: string): boolean {
+  if (!code || typeof code !== 'string') return false;
+  return /^TAL[A-Z0-9]{4,12}$/.test(code.toUpperCase().trim());
+}
+
+/**
+ * Shape check shared by every code path. Only generated codes qualify: the
+ * vanity shape admits the look-alike characters, so vanity codes are
+ * recognised by isVanityCode instead.
+ */
+export function isValidReferralCodeFormat(code: string): boolean {
+  return isGeneratedReferralCodeFormat(code);
+}
+
+/**
+ * Whether code is the member's approved vanity code: vanity-shaped, the
+ * member's current code, and stamped with vanityCodeAt, which only the
+ * vanity moderation flow writes
+ */
+export function isVanityCode(code: string, userData: admin.firestore.DocumentData | undefined): boolean {
+  return isVanityReferralCodeFormat(code) && !!userData?.vanityCodeAt && userData.referralCode === code;
+}
+
+/**
+ * Check character for a code body.
+ *
+ * Position i (1-based) of the full code body has weight i, and the check
+ * character is chosen so the weighted sum is 0 mod 31. 31 is prime, so
+ * any single substitution or swap of two different characters changes the sum.
+ */
+export function computeCheckCharacter(body: string): string {
+  const n = REFERRAL_CODE_ALPHABET.length;
+  const checkWeight = body.length + 1;
+
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    sum += (i + 1) * REFERRAL_CODE_ALPHABET.indexOf(body[i]);
+  }
+
+  // Solve sum + checkWeight * c == 0 (mod n) for c
+  for (let c = 0; c < n; c++) {
+    if ((sum + checkWeight * c) % n === 0) {
+      return REFERRAL_CODE_ALPHABET[c];
+    }
+  }
+  throw new Error('CHECK_CHARACTER_UNAVAILABLE');
+}
+
+/**
+ * Whether a code carries a correct check character.
+ * Only meaningful for codes issued by generateReferralCode.
+ */
+export function hasValidCheckCharacter(code: string): boolean {
+  if (!isGeneratedReferralCodeFormat(code)) return false;
+  const body = code.toUpperCase().trim().slice(REFERRAL_CODE_PREFIX.length);
+  return computeCheckCharacter(body.slice(0, -1)) === body.slice(-1);
+}
+
+/**
+ * Generate a code with a cryptographic RNG. Does not check availability.
+ */
+export function generateReferralCode(): string {
+  let body = '';
+  for (let i = 0; i < RANDOM_LENGTH; i++) {
+    body += REFERRAL_CODE_ALPHABET[randomInt(REFERRAL_CODE_ALPHABET.length)];
+  }
+  return REFERRAL_CODE_PREFIX + body + computeCheckCharacter(body);
+}
+
+/**
+ * Generate a code and reserve referralCodes/{code} for a uid inside a transaction.
+ *
+ * Performs reads, then a write: callers must do all of their own reads
+ * before calling this, as Firestore transactions require. Extra fields are
+ * stored on the reservation (e.g. campaign settings).
+ */
+export async function reserveNewReferralCode(
+  tx: admin.firestore.Transaction,
+  uid: string,
+  extra: admin.firestore.DocumentData = {}
+): Promise<string> {
+  for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+    const code = generateReferralCode();
+    const codeRef = db.collection('referralCodes').doc(code);
+    const codeSnap = await tx.get(codeRef);
+
+    if (!codeSnap.exists) {
+      tx.create(codeRef, {
+        ...extra,
+        uid,
+        createdAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      return code;
+    }
+  }
+
+  throw new Error('FAILED_TO_GENERATE_UNIQUE_CODE');
+}
+
+/**
+ * Issue a new code for a uid in its own transaction
+ */
+export async function issueReferralCode(uid: string): Promise<string> {
+  return db.runTransaction((tx) => reserveNewReferralCode(tx, uid));
+}
+
+/**
+ * Normalize a hand-typed code: upper case, no spaces or dashes
+ */
+export function normalizeReferralCode(code: string): string {
+  return String(code || '').toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Every well-formed generated code one edit away from the input: a substituted,
+ * deleted or inserted character, or two neighbouring characters swapped.
+ * Codes with a correct check character are listed first.
+ */
+export function referralCodeVariants(code: string): string[] {
+  const normalized = normalizeReferralCode(code);
+  const prefix = normalized.startsWith(REFERRAL_CODE_PREFIX) ? REFERRAL_CODE_PREFIX : '';
+  const body = normalized.slice(prefix.length);
+  const variants = new Set<string>();
+
+  for (let i = 0; i <= body.length; i++) {
+    for (const ch of REFERRAL_CODE_ALPHABET) {
+      variants.add(body.slice(0, i) + ch + body.slice(i));
+      if (i < body.length) variants.add(body.slice(0, i) + ch + body.slice(i + 1));
+    }
+    if (i < body.length) variants.add(body.slice(0, i) + body.slice(i + 1));
+    if (i < body.length - 1) variants.add(body.slice(0, i) + body[i + 1] + body[i] + body.slice(i + 2));
+  }
+
+  const candidates = [...variants]
+    .map((variant) => REFERRAL_CODE_PREFIX + variant)
+    .filter((candidate) => candidate !== normalized && isGeneratedReferralCodeFormat(candidate));
+
+  const checked = candidates.filter(hasValidCheckCharacter);
+  const unchecked = candidates.filter((candidate) => !hasValidCheckCharacter(candidate));
+  return [...checked, ...unchecked];
+}
@@ -0,0 +1,372 @@
+/**
+ * Referral Code Consistency Jobs
+ * Background job that reconciles users.referralCode with
+ * user_registry.referralCode in cursor-ordered batches.
+ *
+ * referral_consistency_jobs/{jobId}                 progress + checkpoint
+ * referral_consistency_jobs/{jobId}/mismatches/{uid} one row per mismatch
+ *
+ * Each batch runs in its own trigger invocation: finishing a batch bumps
+ * batchSeq on the job document, which starts the next one. The cursor is
+ * only advanced after a batch is done, so a failed job resumes from the
+ * last completed batch. When the scan finishes, the mismatches are written
+ * to Cloud Storage as a CSV report.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { requireAdmin } from "./admin-guard";
+import { isValidReferralCodeFormat, isVanityCode, reserveNewReferralCode } from "./referral-code";
+import { normalizeUser } from "./user-model";
+
+const db = admin.firestore();
+
+const JOBS_COLLECTION = 'referral_consistency_jobs';
+const REPORTS_PREFIX = 'reports/referral-consistency';
+const BATCH_SIZE = 200;
+const REPORT_PAGE_SIZE = 500;
+const STALLED_AFTER_MS = 15 * 60 * 1000;
+const REPORT_URL_TTL_MS = 60 * 60 * 1000;
+
+export type ConsistencyJobStatus = 'running' | 'completed' | 'failed';
+
+export type MismatchResolution =
+  | 'user_synced_to_registry'
+  | 'registry_synced_to_user'
+  | 'new_code_generated'
+  | 'skipped_no_phone'
+  | 'skipped_no_registry'
+  | 'skipped_registry_other_uid'
+  | 'error';
+
+export interface ConsistencyMismatch {
+  uid: string;
+  phone: string | null;
+  userCode: string | null;
+  registryCode: string | null;
+  resolution: MismatchResolution;
+  newCode: string | null;
+  // False in dry runs and for skipped rows
+  applied: boolean;
+  error?: string;
+}
+
+/**
+ * Work out how a user's codes disagree and, unless this is a dry run, fix it
+ */
+async function reconcileUser(
+  userDoc: admin.firestore.QueryDocumentSnapshot,
+  registryDoc: admin.firestore.DocumentSnapshot | null,
+  dryRun: boolean
+): Promise<ConsistencyMismatch | null> {
+  const userData = userDoc.data();
+  const phone = normalizeUser(userDoc.id, userData).phoneE164;
+  const userCode: string | null = userData.referralCode || null;
+  const registryCode: string | null = registryDoc?.data()?.referralCode || null;
+
+  const row = (resolution: MismatchResolution, applied: boolean, newCode: string | null = null): ConsistencyMismatch =>
+    ({ uid: userDoc.id, phone, userCode, registryCode, resolution, newCode, applied });
+
+  if (!phone) return row('skipped_no_phone', false);
+  if (!registryDoc?.exists) return row('skipped_no_registry', false);
+
+  const registryUid = registryDoc.data()?.uid;
+  if (registryUid && registryUid !== userDoc.id) return row('skipped_registry_other_uid', false);
+
+  if (registryCode && registryCode === userCode) return null;
+
+  // Registry is the source of truth, then the user document
+  if (registryCode && (isValidReferralCodeFormat(registryCode) || isVanityCode(registryCode, userData))) {
+    if (!dryRun) await userDoc.ref.update({ referralCode: registryCode });
+    return row('user_synced_to_registry', !dryRun);
+  }
+  if (userCode && (isValidReferralCodeFormat(userCode) || isVanityCode(userCode, userData))) {
+    if (!dryRun) await registryDoc.ref.update({ referralCode: userCode });
+    return row('registry_synced_to_user', !dryRun);
+  }
+
+  if (dryRun) return row('new_code_generated', false);
+
+  const newCode = await db.runTransaction(async (tx) => {
+    const code = await reserveNewReferralCode(tx, userDoc.id);
+    tx.update(userDoc.ref, { referralCode: code });
+    tx.update(registryDoc.ref, { referralCode: code });
+    return code;
+  });
+  return row('new_code_generated', true, newCode);
+}
+
+/**
+ * Process the batch after the job's cursor. Progress is dropped when another
+ * invocation already moved the job on.
+ */
+async function runConsistencyBatch(jobRef: admin.firestore.DocumentReference, job: admin.firestore.DocumentData): Promise<void> {
+  const { dryRun, cursor, batchSeq } = job;
+
+  let query = db.collection('users').orderBy(admin.firestore.FieldPath.documentId()).limit(BATCH_SIZE);
+  if (cursor) query = query.startAfter(cursor);
+  const usersSnapshot = await query.get();
+
+  // One round trip for the batch's registry entries
+  const phones = usersSnapshot.docs.map((doc) => normalizeUser(doc.id, doc.data()).phoneE164);
+  const registryRefs = phones.filter((phone): phone is string => !!phone).map((phone) => db.collection('user_registry').doc(phone));
+  const registryDocs = registryRefs.length ? await db.getAll(...registryRefs) : [];
+  const registryByPhone = new Map(registryDocs.map((doc) => [doc.id, doc]));
+
+  const mismatches: ConsistencyMismatch[] = [];
+  for (let i = 0; i < usersSnapshot.docs.length; i++) {
+    const userDoc = usersSnapshot.docs[i];
+    const phone = phones[i];
+    const registryDoc = phone ? registryByPhone.get(phone) || null : null;
+
+    let mismatch: ConsistencyMismatch | null;
+    try {
+      mismatch = await reconcileUser(userDoc, registryDoc, dryRun);
+    } catch (error: any) {
+      logger.error(`Consistency job ${jobRef.id}: failed to fix ${userDoc.id}:`, error);
+      mismatch = {
+        uid: userDoc.id,
+        phone,
+        userCode: normalizeUser(userDoc.id, userDoc.data()).referralCode,
+        registryCode: registryDoc?.data()?.referralCode || null,
+        resolution: 'error',
+        newCode: null,
+        applied: false,
+        error: String(error?.message || error),
+      };
+    }
+
+    // Record each row as soon as it is resolved so a crash mid-batch
+    // cannot lose a fix that was already applied
+    if (mismatch) {
+      await jobRef.collection('mismatches').doc(mismatch.uid).set(mismatch);
+      mismatches.push(mismatch);
+    }
+  }
+
+  const lastDoc = usersSnapshot.docs[usersSnapshot.docs.length - 1];
+  const done = usersSnapshot.docs.length < BATCH_SIZE;
+  const count = (resolution: (r: MismatchResolution) => boolean) =>
+    mismatches.filter((m) => resolution(m.resolution)).length;
+
+  // Checkpoint: only the invocation that owns this batchSeq may advance the cursor
+  const advanced = await db.runTransaction(async (tx) => {
+    const current = await tx.get(jobRef);
+    if (current.data()?.batchSeq !== batchSeq || current.data()?.status !== 'running') return false;
+
+    tx.update(jobRef, {
+      cursor: lastDoc ? lastDoc.id : cursor || null,
+      batchSeq: done ? batchSeq : batchSeq + 1,
+      processed: admin.firestore.FieldValue.increment(usersSnapshot.docs.length),
+      mismatches: admin.firestore.FieldValue.increment(mismatches.length),
+      fixed: admin.firestore.FieldValue.increment(count((r) => !r.startsWith('skipped') && r !== 'error')),
+      skipped: admin.firestore.FieldValue.increment(count((r) => r.startsWith('skipped'))),
+      errors: admin.firestore.FieldValue.increment(count((r) => r === 'error')),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  if (advanced && done) {
+    const reportPath = await writeConsistencyReport(jobRef);
+    await jobRef.update({
+      status: 'completed',
+      reportPath,
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    logger.info(`Consistency job ${jobRef.id} completed (dryRun=${dryRun}); report at ${reportPath}`);
+  }
+}
+
+function csvField(value: unknown): string {
+  const text = value == null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write every mismatch of a job to Cloud Storage as CSV and return its path
+ */
+async function writeConsistencyReport(jobRef: admin.firestore.DocumentReference): Promise<string> {
+  const columns: Array<keyof ConsistencyMismatch> =
+    ['uid', 'phone', 'userCode', 'registryCode', 'resolution', 'newCode', 'applied', 'error'];
+  const lines = [columns.join(',')];
+
+  let last: admin.firestore.QueryDocumentSnapshot | undefined;
+  for (;;) {
+    let query = jobRef.collection('mismatches').orderBy(admin.firestore.FieldPath.documentId()).limit(REPORT_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const page = await query.get();
+
+    for (const doc of page.docs) {
+      const data = doc.data();
+      lines.push(columns.map((column) => csvField(data[column])).join(','));
+    }
+    if (page.size < REPORT_PAGE_SIZE) break;
+    last = page.docs[page.docs.length - 1];
+  }
+
+  const path = `${REPORTS_PREFIX}/${jobRef.id}.csv`;
+  await admin.storage().bucket().file(path).save(lines.join('\n') + '\n', {
+    contentType: 'text/csv',
+    resumable: false,
+  });
+  return path;
+}
+
+/**
+ * Run the next batch whenever a running job's batchSeq moves on
+ */
+export const processReferralConsistencyJob = onDocumentWritten(
+  { document: `${JOBS_COLLECTION}/{jobId}`, timeoutSeconds: 540, memory: '512MiB' },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!after || after.status !== 'running') return;
+    if (before && before.status === 'running' && before.batchSeq === after.batchSeq) return;
+
+    const jobRef = event.data!.after.ref;
+    try {
+      await runConsistencyBatch(jobRef, after);
+    } catch (error: any) {
+      logger.error(`Consistency job ${event.params.jobId} failed at cursor ${after.cursor}:`, error);
+      await jobRef.update({
+        status: 'failed',
+        lastError: String(error?.message || error),
+        failedAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  }
+);
+
+/**
+ * bulkFixReferralConsistency (callable)
+ *
+ * ADMIN ONLY: Starts a background job that fixes referral code mismatches for
+ * ALL users, using user_registry as source of truth. Defaults to a dry run;
+ * pass { dryRun: false } to apply the fixes. Progress is on the job document.
+ *
+ * Returns: { jobId, dryRun }
+ */
+export const bulkFixReferralConsistency = onCall(async (request) => {
+  const adminUid = await requireAdmin(request);
+  const dryRun = request.data?.dryRun !== false;
+
+  const jobRef = await db.collection(JOBS_COLLECTION).add({
+    status: 'running' as ConsistencyJobStatus,
+    dryRun,
+    triggeredBy: adminUid,
+    cursor: null,
+    batchSeq: 0,
+    attempts: 1,
+    processed: 0,
+    mismatches: 0,
+    fixed: 0,
+    skipped: 0,
+    errors: 0,
+    reportPath: null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  logger.info(`Referral consistency job ${jobRef.id} started by ${adminUid} (dryRun=${dryRun})`);
+  return { jobId: jobRef.id, dryRun };
+});
+
+/**
+ * Restart a job from its checkpoint by moving batchSeq on
+ */
+async function resumeJob(jobRef: admin.firestore.DocumentReference): Promise<void> {
+  await jobRef.update({
+    status: 'running',
+    batchSeq: admin.firestore.FieldValue.increment(1),
+    attempts: admin.firestore.FieldValue.increment(1),
+    lastError: null,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * resumeReferralConsistencyJob (callable)
+ *
+ * ADMIN ONLY: Continues a failed job from the last completed batch.
+ *
+ * Params: { jobId }
+ * Returns: { jobId, cursor }
+ */
+export const resumeReferralConsistencyJob = onCall(async (request) => {
+  await requireAdmin(request);
+
+  const jobId = request.data?.jobId;
+  if (!jobId || typeof jobId !== 'string') {
+    throw new HttpsError('invalid-argument', 'jobId is required');
+  }
+
+  const jobRef = db.collection(JOBS_COLLECTION).doc(jobId);
+  const job = await jobRef.get();
+  if (!job.exists) {
+    throw new HttpsError('not-found', 'Job not found');
+  }
+  if (job.data()!.status === 'completed') {
+    throw new HttpsError('failed-precondition', 'Job already completed');
+  }
+
+  await resumeJob(jobRef);
+  logger.info(`Consistency job ${jobId} resumed from cursor ${job.data()!.cursor}`);
+  return { jobId, cursor: job.data()!.cursor };
+});
+
+/**
+ * Pick up running jobs whose batch invocation died without a checkpoint
+ */
+export const resumeStalledConsistencyJobs = onSchedule(
+  { schedule: 'every 30 minutes', timeZone: 'Asia/Kolkata' },
+  async () => {
+    const stalledBefore = admin.firestore.Timestamp.fromMillis(Date.now() - STALLED_AFTER_MS);
+    const stalled = await db.collection(JOBS_COLLECTION)
+      .where('status', '==', 'running')
+      .where('updatedAt', '<', stalledBefore)
+      .get();
+
+    for (const job of stalled.docs) {
+      logger.warn(`Resuming stalled consistency job ${job.id} from cursor ${job.data().cursor}`);
+      await resumeJob(job.ref);
+    }
+  }
+);
+
+/**
+ * getReferralConsistencyReport (callable)
+ *
+ * ADMIN ONLY: Signed download URL for a completed job's CSV report.
+ *
+ * Params: { jobId }
+ * Returns: { jobId, url, expiresAt }
+ */
+export const getReferralConsistencyReport = onCall(async (request) => {
+  await requireAdmin(request);
+
+  const jobId = request.data?.jobId;
+  if (!jobId || typeof jobId !== 'string') {
+    throw new HttpsError('invalid-argument', 'jobId is required');
+  }
+
+  const job = await db.collection(JOBS_COLLECTION).doc(jobId).get();
+  const reportPath = job.data()?.reportPath;
+  if (!reportPath) {
+    throw new HttpsError('failed-precondition', 'Report not ready');
+  }
+
+  const expiresAt = Date.now() + REPORT_URL_TTL_MS;
+  const [url] = await admin.storage().bucket().file(reportPath).getSignedUrl({
+    version: 'v4',
+    action: 'read',
+    expires: expiresAt,
+  });
+
+  return { jobId, url, expiresAt: new Date(expiresAt).toISOString() };
+});
@@ -0,0 +1,330 @@
+/**
+ * Regional Referral Leaderboards
+ * Nightly ranking of top recruiters (direct referrals) for every state,
+ * district, mandal and village over rolling windows.
+ *
+ * leaderboards/{boardId}                 { window, level, region, locationCodes, generation, total, generatedAt }
+ * leaderboards/{boardId}/entries/{uid}   { rank, uid, fullName, count, generation }
+ *
+ * Recruits count in the windows by the day they joined, not the day their
+ * ledger entry was written, so reassigned or late-confirmed members are not
+ * counted as new. Boards are keyed by location code where the level has one
+ * and by name otherwise.
+ *
+ * Each run writes a new generation and then removes entries left over from
+ * older ones, so readers always filter on the board's current generation.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { requireAdmin } from "./admin-guard";
+import { LocationCodes, resolveLocation, storedLocationCodes } from "./geography";
+import { REFERRAL_LEDGER_COLLECTION } from "./referral-ledger";
+import { daysAgo } from "./referral-rollups";
+import { Region, RegionLevel, REGION_LEVELS, regionOf } from "./region";
+import { normalizeUser } from "./user-model";
+
+const db = admin.firestore();
+
+const LEADERBOARDS_COLLECTION = 'leaderboards';
+
+export const LEADERBOARD_WINDOWS = { '7d': 7, '30d': 30, '90d': 90 } as const;
+export type LeaderboardWindow = keyof typeof LEADERBOARD_WINDOWS;
+
+function isLeaderboardWindow(value: unknown): value is LeaderboardWindow {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LEADERBOARD_WINDOWS, value);
+}
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const USER_CHUNK_SIZE = 100;
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9\u0C00-\u0C7F]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Board id for a window and region level. Lower levels include their parents
+ * so two mandals with the same name in different districts stay apart. Each
+ * level is keyed by its location code when there is one, so every spelling
+ * of a coded place shares a board.
+ * Returns null when the region is missing a level.
+ */
+export function leaderboardId(
+  window: LeaderboardWindow,
+  level: RegionLevel,
+  region: Region,
+  codes?: Partial<LocationCodes>
+): string | null {
+  const parts: string[] = [];
+  for (const current of REGION_LEVELS) {
+    const value = region[current];
+    if (!value) return null;
+    parts.push(slug(codes?.[current] || value));
+    if (current === level) break;
+  }
+  return `${window}__${level}__${parts.join('__')}`;
+}
+
+/**
+ * Rebuild every leaderboard for every window
+ */
+export async function buildLeaderboards(): Promise<{ generation: number; boards: number }> {
+  const generation = Date.now();
+  const longestWindow = Math.max(...Object.values(LEADERBOARD_WINDOWS));
+
+  // A member joins before their entry is written, so this covers every join in the window
+  const ledgerSnapshot = await db.collection(REFERRAL_LEDGER_COLLECTION)
+    .where('type', '==', 'direct')
+    .where('status', '==', 'active')
+    .where('createdAt', '>=', admin.firestore.Timestamp.fromDate(daysAgo(longestWindow)))
+    .select('ancestorId', 'newUserId', 'createdAt', 'joinedAt')
+    .get();
+
+  // Entries from before joinedAt was recorded take the member's own createdAt
+  const undated = [...new Set(ledgerSnapshot.docs
+    .filter((doc) => !(doc.get('joinedAt') instanceof admin.firestore.Timestamp))
+    .map((doc) => doc.get('newUserId') as string))];
+  const memberJoinedAt = new Map<string, number>();
+  for (let i = 0; i < undated.length; i += USER_CHUNK_SIZE) {
+    const refs = undated.slice(i, i + USER_CHUNK_SIZE).map((uid) => db.collection('users').doc(uid));
+    const snaps = await db.getAll(...refs, { fieldMask: ['createdAt'] });
+    for (const snap of snaps) {
+      const createdAt = snap.get('createdAt');
+      if (createdAt instanceof admin.firestore.Timestamp) memberJoinedAt.set(snap.id, createdAt.toMillis());
+    }
+  }
+
+  // Count direct referrals per recruiter per window
+  const counts = new Map<LeaderboardWindow, Map<string, number>>();
+  for (const window of Object.keys(LEADERBOARD_WINDOWS) as LeaderboardWindow[]) {
+    counts.set(window, new Map());
+  }
+
+  for (const doc of ledgerSnapshot.docs) {
+    const { ancestorId, newUserId, createdAt, joinedAt } = doc.data();
+    const at = joinedAt instanceof admin.firestore.Timestamp
+      ? joinedAt.toMillis()
+      : memberJoinedAt.get(newUserId) ?? (createdAt as admin.firestore.Timestamp).toMillis();
+    for (const [window, days] of Object.entries(LEADERBOARD_WINDOWS) as Array<[LeaderboardWindow, number]>) {
+      if (at >= daysAgo(days).getTime()) {
+        const windowCounts = counts.get(window)!;
+        windowCounts.set(ancestorId, (windowCounts.get(ancestorId) || 0) + 1);
+      }
+    }
+  }
+
+  // Load recruiter names and regions
+  const recruiterIds = [...counts.get('90d')!.keys()];
+  const recruiters = new Map<string, { fullName: string | null; region: Region; codes: LocationCodes }>();
+  for (let i = 0; i < recruiterIds.length; i += USER_CHUNK_SIZE) {
+    const refs = recruiterIds.slice(i, i + USER_CHUNK_SIZE).map((uid) => db.collection('users').doc(uid));
+    const snaps = await db.getAll(...refs);
+    for (const snap of snaps) {
+      if (!snap.exists) continue;
+      const data = snap.data()!;
+      if (data.status === 'banned') continue;
+      recruiters.set(snap.id, {
+        fullName: normalizeUser(snap.id, data).fullName,
+        region: regionOf(data),
+        codes: storedLocationCodes(data),
+      });
+    }
+  }
+
+  // Group recruiters into boards
+  const boards = new Map<string, {
+    window: LeaderboardWindow;
+    level: RegionLevel;
+    region: Region;
+    locationCodes: Partial<LocationCodes>;
+    entries: Array<{ uid: string; fullName: string | null; count: number }>;
+  }>();
+
+  for (const [window, windowCounts] of counts) {
+    for (const [uid, count] of windowCounts) {
+      const recruiter = recruiters.get(uid);
+      if (!recruiter) continue;
+
+      for (const level of REGION_LEVELS) {
+        const boardId = leaderboardId(window, level, recruiter.region, recruiter.codes);
+        if (!boardId) break;
+
+        if (!boards.has(boardId)) {
+          const region: Region = {};
+          const locationCodes: Partial<LocationCodes> = {};
+          for (const current of REGION_LEVELS) {
+            region[current] = recruiter.region[current];
+            locationCodes[current] = recruiter.codes[current];
+            if (current === level) break;
+          }
+          boards.set(boardId, { window, level, region, locationCodes, entries: [] });
+        }
+        boards.get(boardId)!.entries.push({ uid, fullName: recruiter.fullName, count });
+      }
+    }
+  }
+
+  const writer = db.bulkWriter();
+  for (const [boardId, board] of boards) {
+    const boardRef = db.collection(LEADERBOARDS_COLLECTION).doc(boardId);
+    board.entries.sort((a, b) => b.count - a.count || a.uid.localeCompare(b.uid));
+
+    // Competition ranking: equal counts share a rank
+    let rank = 0;
+    board.entries.forEach((entry, index) => {
+      if (index === 0 || entry.count !== board.entries[index - 1].count) rank = index + 1;
+      writer.set(boardRef.collection('entries').doc(entry.uid), { ...entry, rank, generation });
+    });
+
+    writer.set(boardRef, {
+      window: board.window,
+      level: board.level,
+      region: board.region,
+      locationCodes: board.locationCodes,
+      generation,
+      total: board.entries.length,
+      generatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+  await writer.close();
+
+  // Remove boards that have emptied out and entries from earlier generations
+  const existingBoards = await db.collection(LEADERBOARDS_COLLECTION).select('generation').get();
+  for (const boardDoc of existingBoards.docs) {
+    if (boardDoc.data().generation !== generation) {
+      await db.recursiveDelete(boardDoc.ref);
+      continue;
+    }
+
+    const staleEntries = await boardDoc.ref.collection('entries').where('generation', '<', generation).get();
+    if (staleEntries.empty) continue;
+    const cleanup = db.bulkWriter();
+    staleEntries.docs.forEach((doc) => cleanup.delete(doc.ref));
+    await cleanup.close();
+  }
+
+  logger.info(`Built ${boards.size} leaderboards (generation ${generation}) from ${ledgerSnapshot.size} referrals`);
+  return { generation, boards: boards.size };
+}
+
+/**
+ * Nightly leaderboard rebuild
+ */
+export const scheduledLeaderboardBuild = onSchedule(
+  { schedule: 'every day 03:00', timeZone: 'Asia/Kolkata', timeoutSeconds: 540, memory: '1GiB' },
+  async () => {
+    await buildLeaderboards();
+  }
+);
+
+/**
+ * rebuildLeaderboards (callable)
+ *
+ * ADMIN ONLY: Rebuilds all leaderboards now instead of waiting for the nightly run.
+ */
+export const rebuildLeaderboards = onCall(async (request) => {
+  await requireAdmin(request);
+  return buildLeaderboards();
+});
+
+/**
+ * getRegionalLeaderboard (callable)
+ *
+ * Params: { level, window?, region?, pageSize?, pageToken? }
+ *   region defaults to the caller's own region.
+ *
+ * Returns: {
+ *   boardId, window, level, region, total, generatedAt,
+ *   entries: Array<{rank, uid, fullName, count}>,
+ *   nextPageToken: string | null,
+ *   myRank: {rank, count} | null
+ * }
+ */
+export const getRegionalLeaderboard = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) throw new HttpsError('unauthenticated', 'User must be authenticated');
+
+  const { level, window = '30d', region, pageSize = DEFAULT_PAGE_SIZE, pageToken } = request.data || {};
+
+  if (!REGION_LEVELS.includes(level)) {
+    throw new HttpsError('invalid-argument', `level must be one of ${REGION_LEVELS.join(', ')}`);
+  }
+  if (!isLeaderboardWindow(window)) {
+    throw new HttpsError('invalid-argument', `window must be one of ${Object.keys(LEADERBOARD_WINDOWS).join(', ')}`);
+  }
+
+  if (region !== undefined && (
+    typeof region !== 'object' || region === null || Array.isArray(region) ||
+    REGION_LEVELS.some((current) => region[current] !== undefined && typeof region[current] !== 'string')
+  )) {
+    throw new HttpsError('invalid-argument', 'region must be an object of state, district, mandal and village names');
+  }
+
+  let boardRegion: Region;
+  let boardCodes: Partial<LocationCodes> | undefined;
+  if (region) {
+    // Other spellings of a known place lead to the same board
+    const resolution = resolveLocation(region);
+    boardRegion = resolution.ok ? { ...regionOf(region), ...resolution.region } : regionOf(region);
+    boardCodes = resolution.ok ? resolution.codes : undefined;
+  } else {
+    const userData = (await db.collection('users').doc(uid).get()).data() || {};
+    boardRegion = regionOf(userData);
+    boardCodes = storedLocationCodes(userData);
+  }
+
+  const boardId = leaderboardId(window, level, boardRegion, boardCodes);
+  if (!boardId) {
+    throw new HttpsError('invalid-argument', 'Region is incomplete for this level');
+  }
+
+  const boardDoc = await db.collection(LEADERBOARDS_COLLECTION).doc(boardId).get();
+  if (!boardDoc.exists) {
+    return { boardId, window, level, region: boardRegion, total: 0, generatedAt: null, entries: [], nextPageToken: null, myRank: null };
+  }
+
+  const board = boardDoc.data()!;
+  const limit = Math.min(Math.max(Number(pageSize) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  let query = boardDoc.ref.collection('entries')
+    .where('generation', '==', board.generation)
+    .orderBy('rank')
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(limit + 1);
+
+  if (pageToken) {
+    const [rank, afterUid] = String(pageToken).split(':');
+    query = query.startAfter(Number(rank), afterUid);
+  }
+
+  const [entriesSnapshot, myEntry] = await Promise.all([
+    query.get(),
+    boardDoc.ref.collection('entries').doc(uid).get()
+  ]);
+
+  const pageDocs = entriesSnapshot.docs.slice(0, limit);
+  const entries = pageDocs.map((doc) => {
+    const { rank, fullName, count } = doc.data();
+    return { rank, uid: doc.id, fullName, count };
+  });
+
+  const last = pageDocs[pageDocs.length - 1];
+  const nextPageToken = entriesSnapshot.docs.length > limit ? `${last.data().rank}:${last.id}` : null;
+
+  const mine = myEntry.exists && myEntry.data()!.generation === board.generation ? myEntry.data()! : null;
+
+  return {
+    boardId,
+    window,
+    level,
+    region: board.region,
+    total: board.total,
+    generatedAt: board.generatedAt,
+    entries,
+    nextPageToken,
+    myRank: mine ? { rank: mine.rank, count: mine.count } : null,
+  };
+});
@@ -0,0 +1,288 @@
+/**
+ * Talowa Referral Ledger
+ * Immutable record of every referral credit given to an upline member.
+ *
+ * One entry exists per (new user, ancestor) pair, so crediting the same
+ * sign-up twice is a no-op. Counter changes are only applied for entries
+ * that were created or reversed in the same transaction. Entries are never
+ * deleted; a reversal only moves an entry's status to 'reversed'.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+export const REFERRAL_LEDGER_COLLECTION = 'referral_ledger';
+
+export type ReferralCreditType = 'direct' | 'team';
+
+export type LedgerEntryStatus = 'active' | 'reversed';
+
+/**
+ * One ancestor to credit for a new user's sign-up.
+ * depth is 1 for the direct referrer, 2 for their referrer, and so on.
+ */
+export interface UplineCredit {
+  ancestorId: string;
+  depth: number;
+}
+
+export interface LedgerEntry {
+  newUserId: string;
+  ancestorId: string;
+  depth: number;
+  type: ReferralCreditType;
+  // Code the new user signed up with
+  referralCode: string;
+  status: LedgerEntryStatus;
+  createdAt: admin.firestore.FieldValue | admin.firestore.Timestamp;
+  // When the new user joined; rollups count the join on this day
+  joinedAt?: admin.firestore.Timestamp | null;
+  reversedAt?: admin.firestore.FieldValue | admin.firestore.Timestamp;
+  reversalReason?: string;
+}
+
+/**
+ * Ledger document id for a (new user, ancestor) pair
+ */
+export function ledgerEntryId(newUserId: string, ancestorId: string): string {
+  return `${newUserId}_${ancestorId}`;
+}
+
+export function ledgerEntryRef(newUserId: string, ancestorId: string): admin.firestore.DocumentReference {
+  return db.collection(REFERRAL_LEDGER_COLLECTION).doc(ledgerEntryId(newUserId, ancestorId));
+}
+
+/**
+ * Counter updates for adding (+1) or removing (-1) one credit
+ */
+function counterUpdate(type: ReferralCreditType, delta: 1 | -1): { [field: string]: admin.firestore.FieldValue } {
+  const counters: { [field: string]: admin.firestore.FieldValue } = {
+    teamReferrals: admin.firestore.FieldValue.increment(delta),
+    teamSize: admin.firestore.FieldValue.increment(delta), // Keep both for compatibility
+    lastStatsUpdate: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  if (type === 'direct') {
+    counters.directReferrals = admin.firestore.FieldValue.increment(delta);
+  }
+  return counters;
+}
+
+/**
+ * Direct and team counts per ancestor from active ledger entries, the only
+ * source referral counters are derived from
+ */
+export function countLedgerCredits(
+  entries: Array<{ ancestorId: string; type: ReferralCreditType }>
+): Map<string, { direct: number; team: number }> {
+  const counts = new Map<string, { direct: number; team: number }>();
+  for (const entry of entries) {
+    const count = counts.get(entry.ancestorId) || { direct: 0, team: 0 };
+    count.team++;
+    if (entry.type === 'direct') count.direct++;
+    counts.set(entry.ancestorId, count);
+  }
+  return counts;
+}
+
+/**
+ * Credit every ancestor in the upline exactly once.
+ * Returns the number of ledger entries written by this call.
+ */
+export async function creditUpline(
+  newUserId: string,
+  referralCode: string,
+  upline: UplineCredit[],
+  joinedAt: admin.firestore.Timestamp | null = null
+): Promise<number> {
+  if (upline.length === 0) return 0;
+
+  return db.runTransaction(async (tx) => {
+    const entryRefs = upline.map((credit) => ledgerEntryRef(newUserId, credit.ancestorId));
+    const entrySnaps = await tx.getAll(...entryRefs);
+
+    let written = 0;
+    upline.forEach((credit, index) => {
+      if (entrySnaps[index].exists) {
+        return;
+      }
+
+      const type = creditTypeForDepth(credit.depth);
+      const entry: LedgerEntry = {
+        newUserId,
+        ancestorId: credit.ancestorId,
+        depth: credit.depth,
+        type,
+        referralCode,
+        status: 'active',
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        joinedAt,
+      };
+      tx.create(entryRefs[index], entry);
+      tx.update(db.collection('users').doc(credit.ancestorId), counterUpdate(type, 1));
+      written++;
+    });
+
+    if (written < upline.length) {
+      logger.log(`Skipped ${upline.length - written} existing ledger entries for ${newUserId}`);
+    }
+    return written;
+  });
+}
+
+/**
+ * Reverse every active credit a user gave to their upline.
+ * Ancestors whose documents no longer exist only have their entry reversed.
+ * Returns the uids of ancestors whose counters were decremented.
+ */
+export async function reverseUplineCredits(newUserId: string, reason: string): Promise<string[]> {
+  return db.runTransaction(async (tx) => {
+    const entriesSnap = await tx.get(
+      db.collection(REFERRAL_LEDGER_COLLECTION).where('newUserId', '==', newUserId)
+    );
+    const activeEntries = entriesSnap.docs.filter((doc) => doc.data().status !== 'reversed');
+    if (activeEntries.length === 0) return [];
+
+    const ancestorRefs = activeEntries.map((doc) => db.collection('users').doc(doc.data().ancestorId));
+    const ancestorSnaps = await tx.getAll(...ancestorRefs);
+
+    const affected: string[] = [];
+    activeEntries.forEach((entryDoc, index) => {
+      const entry = entryDoc.data() as LedgerEntry;
+      tx.update(entryDoc.ref, {
+        status: 'reversed',
+        reversedAt: admin.firestore.FieldValue.serverTimestamp(),
+        reversalReason: reason,
+      });
+
+      if (ancestorSnaps[index].exists) {
+        tx.update(ancestorRefs[index], counterUpdate(entry.type, -1));
+        affected.push(entry.ancestorId);
+      }
+    });
+
+    logger.log(`Reversed ${activeEntries.length} ledger entries for ${newUserId} (${reason})`);
+    return affected;
+  });
+}
+
+/**
+ * Net change to one ancestor's counters
+ */
+export interface CounterDelta {
+  direct: number;
+  team: number;
+}
+
+export function creditTypeForDepth(depth: number): ReferralCreditType {
+  return depth === 1 ? 'direct' : 'team';
+}
+
+function addCounterDelta(
+  deltas: Map<string, CounterDelta>,
+  ancestorId: string,
+  type: ReferralCreditType,
+  sign: 1 | -1
+): void {
+  const delta = deltas.get(ancestorId) || { direct: 0, team: 0 };
+  delta.team += sign;
+  if (type === 'direct') delta.direct += sign;
+  deltas.set(ancestorId, delta);
+}
+
+/**
+ * Re-point one member's ledger entries at a new ancestor path inside a
+ * transaction. Entries for ancestors no longer above the member are reversed,
+ * new ancestors are credited (or re-activated) and entries whose depth changed
+ * are updated. Counter changes are accumulated in deltas for the caller to
+ * apply with applyCounterDeltas once every member has been processed.
+ *
+ * Members with no active entries were never credited and are left alone.
+ */
+export function moveMemberCredits(
+  tx: admin.firestore.Transaction,
+  memberId: string,
+  referralCode: string,
+  entries: admin.firestore.QueryDocumentSnapshot[],
+  newPath: string[],
+  reason: string,
+  deltas: Map<string, CounterDelta>
+): void {
+  if (!entries.some((entry) => entry.data().status !== 'reversed')) return;
+
+  const entriesByAncestor = new Map(entries.map((entry) => [entry.data().ancestorId as string, entry]));
+  const joinedAt = entries.map((entry) => entry.data().joinedAt).find((value) => value instanceof admin.firestore.Timestamp) ?? null;
+  const newDepths = new Map(newPath.map((ancestorId, index) => [ancestorId, index + 1]));
+
+  for (const entryDoc of entries) {
+    const entry = entryDoc.data() as LedgerEntry;
+    if (entry.status === 'reversed' || newDepths.has(entry.ancestorId)) continue;
+
+    tx.update(entryDoc.ref, {
+      status: 'reversed',
+      reversedAt: admin.firestore.FieldValue.serverTimestamp(),
+      reversalReason: reason,
+    });
+    addCounterDelta(deltas, entry.ancestorId, entry.type, -1);
+  }
+
+  newPath.forEach((ancestorId, index) => {
+    const depth = index + 1;
+    const type = creditTypeForDepth(depth);
+    const existing = entriesByAncestor.get(ancestorId);
+    const current = existing?.data() as LedgerEntry | undefined;
+
+    if (existing && current && current.status !== 'reversed') {
+      if (current.depth === depth) return;
+      tx.update(existing.ref, { depth, type });
+      if (current.type !== type) {
+        addCounterDelta(deltas, ancestorId, current.type, -1);
+        addCounterDelta(deltas, ancestorId, type, 1);
+      }
+      return;
+    }
+
+    const entry: LedgerEntry = {
+      newUserId: memberId,
+      ancestorId,
+      depth,
+      type,
+      referralCode,
+      status: 'active',
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      joinedAt,
+    };
+    tx.set(ledgerEntryRef(memberId, ancestorId), entry);
+    addCounterDelta(deltas, ancestorId, type, 1);
+  });
+}
+
+/**
+ * Write accumulated counter deltas, one update per ancestor.
+ * Ancestors not in existingAncestors (deleted users) are skipped.
+ */
+export function applyCounterDeltas(
+  tx: admin.firestore.Transaction,
+  deltas: Map<string, CounterDelta>,
+  existingAncestors: Set<string>
+): string[] {
+  const changed: string[] = [];
+
+  for (const [ancestorId, delta] of deltas) {
+    if (!existingAncestors.has(ancestorId) || (delta.direct === 0 && delta.team === 0)) continue;
+
+    const update: { [field: string]: admin.firestore.FieldValue } = {
+      lastStatsUpdate: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    if (delta.direct !== 0) update.directReferrals = admin.firestore.FieldValue.increment(delta.direct);
+    if (delta.team !== 0) {
+      update.teamReferrals = admin.firestore.FieldValue.increment(delta.team);
+      update.teamSize = admin.firestore.FieldValue.increment(delta.team); // Keep both for compatibility
+    }
+    tx.update(db.collection('users').doc(ancestorId), update);
+    changed.push(ancestorId);
+  }
+
+  return changed;
+}
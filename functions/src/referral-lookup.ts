@@ -0,0 +1,121 @@
+/**
+ * Referral Code Lookup
+ * Lets the registration flow confirm a hand-typed referral code before
+ * submitting it, and suggests close matches for typos.
+ *
+ * Answers name members, so lookups are rate-limited per caller and per IP
+ * and a miss reads at most MAX_CANDIDATES codes.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {
+  isValidReferralCodeFormat,
+  isVanityReferralCodeFormat,
+  normalizeReferralCode,
+  REFERRAL_CODE_PREFIX,
+  referralCodeVariants,
+} from "./referral-code";
+import { clientIp, consumeRateLimit, RateLimit } from "./rate-limit";
+import { normalizeUser } from "./user-model";
+
+const db = admin.firestore();
+
+const MAX_SUGGESTIONS = 5;
+// Variants checked for a miss, best first (those with a valid check character)
+const MAX_CANDIDATES = 100;
+
+const LOOKUP_LIMITS: Record<'uid' | 'ip', RateLimit> = {
+  uid: { limit: 20, windowMs: 60 * 60 * 1000 },
+  ip: { limit: 60, windowMs: 60 * 60 * 1000 },
+};
+
+export interface ReferrerSummary {
+  code: string;
+  displayName: string | null;
+  village: string | null;
+}
+
+/**
+ * Describe the owner of a reserved code, or null if the code is not in use
+ */
+async function describeCodeOwner(code: string, ownerUid: string | undefined): Promise<ReferrerSummary | null> {
+  if (!ownerUid) return null;
+
+  const ownerDoc = await db.collection('users').doc(ownerUid).get();
+  if (!ownerDoc.exists) return null;
+
+  const owner = normalizeUser(ownerDoc.id, ownerDoc.data()!);
+  return {
+    code,
+    displayName: owner.fullName,
+    village: owner.village,
+  };
+}
+
+/**
+ * lookupReferralCode (callable)
+ *
+ * Params: { code }
+ * Returns:
+ *   { valid: true, code, referrer: { code, displayName, village } }
+ *   { valid: false, code, suggestions: Array<{ code, displayName, village }> }
+ */
+export const lookupReferralCode = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const ip = clientIp(request);
+  const limits = await Promise.all([
+    consumeRateLimit('referral_lookup_uid', uid, LOOKUP_LIMITS.uid),
+    ...(ip ? [consumeRateLimit('referral_lookup_ip', ip, LOOKUP_LIMITS.ip)] : []),
+  ]);
+  if (limits.some((result) => !result.allowed)) {
+    throw new HttpsError('resource-exhausted', 'Too many lookups, try again later');
+  }
+
+  const rawCode = request.data?.code;
+  if (!rawCode || typeof rawCode !== 'string') {
+    throw new HttpsError('invalid-argument', 'code is required');
+  }
+
+  let code = normalizeReferralCode(rawCode);
+  if (!code.startsWith(REFERRAL_CODE_PREFIX)) {
+    code = REFERRAL_CODE_PREFIX + code;
+  }
+
+  try {
+    if (isValidReferralCodeFormat(code) || isVanityReferralCodeFormat(code)) {
+      const reservation = (await db.collection('referralCodes').doc(code).get()).data();
+      // Vanity-shaped codes only count when moderation reserved them as such
+      const issued = isValidReferralCodeFormat(code) || reservation?.kind === 'vanity';
+      const referrer = issued ? await describeCodeOwner(code, reservation?.uid) : null;
+      if (referrer) {
+        return { valid: true, code, referrer };
+      }
+    }
+
+    // Unknown code: look for reserved codes one edit away
+    const suggestions: ReferrerSummary[] = [];
+    const candidates = referralCodeVariants(code).slice(0, MAX_CANDIDATES);
+
+    if (candidates.length > 0) {
+      const snaps = await db.getAll(...candidates.map((candidate) => db.collection('referralCodes').doc(candidate)));
+      for (const snap of snaps) {
+        if (!snap.exists || suggestions.length >= MAX_SUGGESTIONS) continue;
+        const referrer = await describeCodeOwner(snap.id, snap.data()?.uid);
+        if (referrer) suggestions.push(referrer);
+      }
+    }
+
+    logger.info(`Referral code ${code} not found; ${suggestions.length} suggestions`);
+    return { valid: false, code, suggestions };
+
+  } catch (error: any) {
+    logger.error(`Failed to look up referral code ${code}:`, error);
+    throw new HttpsError('internal', 'Failed to look up referral code');
+  }
+});
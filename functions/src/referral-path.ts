@@ -0,0 +1,188 @@
+/**
+ * Talowa Referral Ancestor Path
+ * Materialized upline stored on every user document.
+ *
+ * ancestorIds lists the upline nearest first: ancestorIds[0] is the direct
+ * referrer and ancestorIds[i] is credited at depth i + 1. ancestorDepth is
+ * the length of that list (0 for the root of the tree).
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { normalizeUser, User } from "./user-model";
+
+const db = admin.firestore();
+
+// Hard cap on upline length; a longer chain is treated as corrupt data
+export const MAX_REFERRAL_DEPTH = 100;
+
+export type ReferralChainProblem = 'referral_cycle' | 'referral_depth_exceeded';
+
+export interface AncestorPath {
+  ancestorIds: string[];
+  ancestorDepth: number;
+}
+
+export interface ResolvedReferrer {
+  uid: string;
+  data: User;
+}
+
+/**
+ * Build a user's path from their direct referrer's document
+ */
+export function pathFromReferrer(referrerUid: string, referrerData: admin.firestore.DocumentData): AncestorPath {
+  const referrerAncestors: string[] = Array.isArray(referrerData.ancestorIds) ? referrerData.ancestorIds : [];
+  const ancestorIds = [referrerUid, ...referrerAncestors];
+  return { ancestorIds, ancestorDepth: ancestorIds.length };
+}
+
+/**
+ * Whether a user document already carries a materialized path
+ */
+export function hasAncestorPath<T extends admin.firestore.DocumentData>(userData: T): userData is T & AncestorPath {
+  return Array.isArray(userData.ancestorIds) && typeof userData.ancestorDepth === 'number';
+}
+
+/**
+ * Resolve a referral code to its owner.
+ * Uses the referralCodes reservation first and falls back to the users query.
+ * When a transaction is given all reads go through it.
+ */
+export async function resolveReferrerByCode(
+  code: string,
+  tx?: admin.firestore.Transaction
+): Promise<ResolvedReferrer | null> {
+  if (!code) return null;
+
+  const codeRef = db.collection('referralCodes').doc(code);
+  const codeSnap = tx ? await tx.get(codeRef) : await codeRef.get();
+  const ownerUid = codeSnap.data()?.uid;
+
+  if (ownerUid) {
+    const ownerRef = db.collection('users').doc(ownerUid);
+    const ownerSnap = tx ? await tx.get(ownerRef) : await ownerRef.get();
+    if (ownerSnap.exists) {
+      return { uid: ownerSnap.id, data: normalizeUser(ownerSnap.id, ownerSnap.data()!) };
+    }
+  }
+
+  // Documents not yet migrated keep the code under referral.code
+  for (const field of ['referralCode', 'referral.code']) {
+    const query = db.collection('users').where(field, '==', code).limit(1);
+    const snapshot = tx ? await tx.get(query) : await query.get();
+    if (!snapshot.empty) {
+      return { uid: snapshot.docs[0].id, data: normalizeUser(snapshot.docs[0].id, snapshot.docs[0].data()) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Index of the first uid in a path that is the user or repeats an earlier
+ * entry, or -1 when the path is a clean chain.
+ */
+export function findCycleIndex(userId: string, ancestorIds: string[]): number {
+  const seen = new Set<string>([userId]);
+  for (let i = 0; i < ancestorIds.length; i++) {
+    if (seen.has(ancestorIds[i])) return i;
+    seen.add(ancestorIds[i]);
+  }
+  return -1;
+}
+
+/**
+ * Record a broken referral chain in flagged_activities for admin review.
+ * One document per user and problem, so repeated detection does not pile up.
+ */
+export async function flagReferralChainProblem(
+  userId: string,
+  type: ReferralChainProblem,
+  ancestorIds: string[]
+): Promise<void> {
+  logger.warn(`Flagging ${type} for user ${userId} after ${ancestorIds.length} ancestors`);
+  await db.collection('flagged_activities').doc(`${type}_${userId}`).set({
+    uid: userId,
+    type,
+    details: { ancestorIds: ancestorIds.slice(0, MAX_REFERRAL_DEPTH + 1) },
+    flaggedAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+}
+
+/**
+ * Cut a stored path at its first cycle or at the depth cap, flagging the user
+ * if anything had to be removed.
+ */
+export async function sanitizeAncestorPath(userId: string, ancestorIds: string[]): Promise<AncestorPath> {
+  const cycleIndex = findCycleIndex(userId, ancestorIds);
+  if (cycleIndex >= 0) {
+    await flagReferralChainProblem(userId, 'referral_cycle', ancestorIds);
+    ancestorIds = ancestorIds.slice(0, cycleIndex);
+  }
+
+  if (ancestorIds.length > MAX_REFERRAL_DEPTH) {
+    await flagReferralChainProblem(userId, 'referral_depth_exceeded', ancestorIds);
+    ancestorIds = ancestorIds.slice(0, MAX_REFERRAL_DEPTH);
+  }
+
+  return { ancestorIds, ancestorDepth: ancestorIds.length };
+}
+
+/**
+ * Walk the referredBy chain one code lookup at a time.
+ * Only used for legacy users whose documents predate the materialized path.
+ * Stops at a repeated uid or at MAX_REFERRAL_DEPTH and flags the user.
+ */
+export async function walkAncestorPath(userId: string, referredByCode: string): Promise<AncestorPath> {
+  const ancestorIds: string[] = [];
+  const visited = new Set<string>([userId]);
+  let currentCode: string | null = referredByCode;
+
+  while (currentCode) {
+    if (ancestorIds.length >= MAX_REFERRAL_DEPTH) {
+      await flagReferralChainProblem(userId, 'referral_depth_exceeded', ancestorIds);
+      break;
+    }
+
+    const referrer = await resolveReferrerByCode(currentCode);
+    if (!referrer) {
+      logger.warn(`Referrer with code ${currentCode} not found. Stopping chain.`);
+      break;
+    }
+
+    if (visited.has(referrer.uid)) {
+      await flagReferralChainProblem(userId, 'referral_cycle', [...ancestorIds, referrer.uid]);
+      break;
+    }
+
+    visited.add(referrer.uid);
+    ancestorIds.push(referrer.uid);
+
+    // Admin is the root of the tree
+    if (currentCode === 'TALADMIN') break;
+
+    // A referrer that already has a path lets us stop walking
+    if (hasAncestorPath(referrer.data)) {
+      return sanitizeAncestorPath(userId, [...ancestorIds, ...referrer.data.ancestorIds]);
+    }
+
+    currentCode = referrer.data.referredBy || null;
+  }
+
+  return { ancestorIds, ancestorDepth: ancestorIds.length };
+}
+
+/**
+ * Everyone below a user in the tree, in one indexed query
+ */
+export function teamQuery(uid: string): admin.firestore.Query {
+  return db.collection('users').where('ancestorIds', 'array-contains', uid);
+}
+
+/**
+ * Size of a user's subtree (excluding the user)
+ */
+export async function countTeam(uid: string): Promise<number> {
+  const snapshot = await teamQuery(uid).count().get();
+  return snapshot.data().count;
+}
@@ -0,0 +1,227 @@
+/**
+ * Referral Reassignment
+ * Admin tool to move a member registered under the wrong coordinator.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { requireAdmin } from "./admin-guard";
+import { logAdminAction } from "./admin-system";
+import { reevaluateUserRole } from "./automatic-role-promotion";
+import {
+  applyCounterDeltas,
+  CounterDelta,
+  moveMemberCredits,
+  REFERRAL_LEDGER_COLLECTION,
+} from "./referral-ledger";
+import { MAX_REFERRAL_DEPTH, pathFromReferrer, resolveReferrerByCode, teamQuery } from "./referral-path";
+import { normalizeUser } from "./user-model";
+
+const db = admin.firestore();
+
+// Largest subtree that can be moved in one transaction
+const MAX_REASSIGN_MEMBERS = 150;
+
+// Firestore allows 500 writes per transaction; keep a margin for the
+// counter updates that depend on which ledger entries already exist
+const MAX_REASSIGN_WRITES = 450;
+
+/**
+ * Upper bound on the writes a move makes: each member's own update, one
+ * ledger write per old and new ancestor, and one counter update per ancestor
+ */
+function plannedWrites(moves: Array<{ oldPath: string[]; newPath: string[] }>): number {
+  const ancestors = new Set<string>();
+  let writes = 0;
+  for (const move of moves) {
+    writes += 1 + move.oldPath.length + move.newPath.length;
+    move.oldPath.forEach((id) => ancestors.add(id));
+    move.newPath.forEach((id) => ancestors.add(id));
+  }
+  return writes + ancestors.size;
+}
+
+/**
+ * reassignReferrer (callable)
+ *
+ * ADMIN ONLY: Moves a member under a new referrer.
+ *
+ * With moveSubtree (default) the member's whole team moves with them.
+ * Without it only the member moves, and their direct referrals are
+ * re-attached to the member's old referrer.
+ *
+ * Ledger credits are moved from the old upline to the new one and the
+ * ancestor paths of everyone affected are rewritten in one transaction.
+ * Moves that would need more writes than a transaction allows are
+ * rejected; move the deeper parts of a large team first.
+ *
+ * Params: { targetUid, newReferralCode, moveSubtree?, reason? }
+ * Returns: { success, movedMembers, affectedAncestors }
+ */
+export const reassignReferrer = onCall(async (request) => {
+  const adminUid = await requireAdmin(request);
+
+  const { targetUid, newReferralCode, moveSubtree = true, reason = 'admin_reassignment' } = request.data || {};
+  if (!targetUid || !newReferralCode) {
+    throw new HttpsError('invalid-argument', 'targetUid and newReferralCode are required');
+  }
+
+  const targetRef = db.collection('users').doc(targetUid);
+
+  let affected: string[] = [];
+  let movedMembers = 0;
+
+  try {
+    await db.runTransaction(async (tx) => {
+      // ---- Reads ----
+      const targetSnap = await tx.get(targetRef);
+      if (!targetSnap.exists) {
+        throw new HttpsError('not-found', 'User not found');
+      }
+      const target = normalizeUser(targetUid, targetSnap.data()!);
+
+      const newReferrer = await resolveReferrerByCode(newReferralCode, tx);
+      if (!newReferrer) {
+        throw new HttpsError('not-found', 'New referrer not found');
+      }
+
+      const oldTargetPath: string[] = Array.isArray(target.ancestorIds) ? target.ancestorIds : [];
+      if (oldTargetPath[0] === newReferrer.uid) {
+        throw new HttpsError('failed-precondition', 'User is already under this referrer');
+      }
+
+      const newTargetPath = pathFromReferrer(newReferrer.uid, newReferrer.data).ancestorIds;
+      if (newReferrer.uid === targetUid || newTargetPath.includes(targetUid)) {
+        throw new HttpsError('failed-precondition', 'New referrer is inside the user\'s own team');
+      }
+
+      const teamSnap = await tx.get(teamQuery(targetUid).limit(MAX_REASSIGN_MEMBERS + 1));
+      if (teamSnap.size + 1 > MAX_REASSIGN_MEMBERS) {
+        throw new HttpsError('failed-precondition', `Team is too large to move at once (max ${MAX_REASSIGN_MEMBERS})`);
+      }
+
+      // Work out each member's new path
+      const moves: Array<{
+        ref: admin.firestore.DocumentReference;
+        uid: string;
+        referralCode: string;
+        oldPath: string[];
+        newPath: string[];
+        update: admin.firestore.DocumentData;
+      }> = [];
+
+      moves.push({
+        ref: targetRef,
+        uid: targetUid,
+        referralCode: newReferralCode,
+        oldPath: oldTargetPath,
+        newPath: newTargetPath,
+        update: {
+          referredBy: newReferralCode,
+          referrerUid: newReferrer.uid,
+        },
+      });
+
+      for (const memberDoc of teamSnap.docs) {
+        const member = normalizeUser(memberDoc.id, memberDoc.data());
+        const oldPath = member.ancestorIds || [];
+        const inner = oldPath.slice(0, oldPath.indexOf(targetUid));
+        const update: admin.firestore.DocumentData = {};
+
+        let newPath: string[];
+        if (moveSubtree) {
+          newPath = [...inner, targetUid, ...newTargetPath];
+        } else {
+          newPath = [...inner, ...oldTargetPath];
+          if (inner.length === 0) {
+            // Direct referral of the target: re-attach to the old referrer
+            update.referredBy = target.referredBy || null;
+            update.referrerUid = oldTargetPath[0] || null;
+          }
+        }
+
+        moves.push({
+          ref: memberDoc.ref,
+          uid: memberDoc.id,
+          referralCode: update.referredBy || member.referredBy || '',
+          oldPath,
+          newPath,
+          update,
+        });
+      }
+
+      if (moves.some((move) => move.newPath.length > MAX_REFERRAL_DEPTH)) {
+        throw new HttpsError('failed-precondition', 'Move would exceed the maximum referral depth');
+      }
+      if (plannedWrites(moves) > MAX_REASSIGN_WRITES) {
+        throw new HttpsError('failed-precondition', 'Team is too large to move at once; move parts of it separately');
+      }
+
+      const entriesByMember = new Map<string, admin.firestore.QueryDocumentSnapshot[]>();
+      for (const move of moves) {
+        const entriesSnap = await tx.get(
+          db.collection(REFERRAL_LEDGER_COLLECTION).where('newUserId', '==', move.uid)
+        );
+        entriesByMember.set(move.uid, entriesSnap.docs);
+      }
+
+      const ancestorIds = new Set<string>();
+      for (const move of moves) {
+        move.oldPath.forEach((id) => ancestorIds.add(id));
+        move.newPath.forEach((id) => ancestorIds.add(id));
+      }
+      const ancestorRefs = [...ancestorIds].map((id) => db.collection('users').doc(id));
+      const ancestorSnaps = ancestorRefs.length > 0 ? await tx.getAll(...ancestorRefs) : [];
+      const existingAncestors = new Set(ancestorSnaps.filter((snap) => snap.exists).map((snap) => snap.id));
+
+      // ---- Writes ----
+      const deltas = new Map<string, CounterDelta>();
+      for (const move of moves) {
+        moveMemberCredits(
+          tx,
+          move.uid,
+          move.referralCode,
+          entriesByMember.get(move.uid) || [],
+          move.newPath,
+          reason,
+          deltas
+        );
+
+        tx.update(move.ref, {
+          ...move.update,
+          ancestorIds: move.newPath,
+          ancestorDepth: move.newPath.length,
+          lastStatsUpdate: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+
+      affected = applyCounterDeltas(tx, deltas, existingAncestors);
+      movedMembers = moves.length;
+    });
+  } catch (error) {
+    if (error instanceof HttpsError) throw error;
+    logger.error(`Failed to reassign ${targetUid} to ${newReferralCode}:`, error);
+    throw new HttpsError('internal', 'Failed to reassign referrer');
+  }
+
+  // Both the old and the new upline may have crossed a role threshold
+  for (const ancestorId of affected) {
+    try {
+      await reevaluateUserRole(ancestorId);
+    } catch (error) {
+      logger.error(`Failed to re-evaluate role for ${ancestorId} after reassignment:`, error);
+    }
+  }
+
+  await logAdminAction({
+    adminUid,
+    action: 'reassign_referrer',
+    targetUid,
+    details: { newReferralCode, moveSubtree: !!moveSubtree, reason, movedMembers, affectedAncestors: affected },
+    timestamp: admin.firestore.FieldValue.serverTimestamp()
+  });
+
+  logger.info(`Reassigned ${targetUid} (${movedMembers} members) to ${newReferralCode}`);
+  return { success: true, movedMembers, affectedAncestors: affected.length };
+});
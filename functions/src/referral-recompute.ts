@@ -0,0 +1,353 @@
+/**
+ * Referral Statistics Recompute
+ * Rebuilds directReferrals / teamReferrals / teamSize for every user from
+ * the active referral_ledger entries, and the materialized ancestor path from
+ * the referredBy graph in the users collection.
+ *
+ * The counts the referredBy graph implies are compared with the ledger and
+ * every difference is reported under the report's ledger_drift, so the
+ * ledger can be repaired (e.g. with reassignReferrer) rather than the
+ * counters silently diverging from it.
+ */
+
+import { onCall } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { requireAdmin } from "./admin-guard";
+import { referralStatusOf } from "./referral-attribution";
+import { countLedgerCredits, REFERRAL_LEDGER_COLLECTION, ReferralCreditType } from "./referral-ledger";
+import { flagReferralChainProblem } from "./referral-path";
+import { normalizeUser, readCount } from "./user-model";
+
+const db = admin.firestore();
+
+const REPORTS_COLLECTION = 'referral_stats_reports';
+const BATCH_SIZE = 400;
+
+interface UserNode {
+  uid: string;
+  referralCode: string | null;
+  // Earlier codes that still resolve to this user (e.g. after a vanity code)
+  referralCodeAliases: string[];
+  referredBy: string | null;
+  directReferrals: number;
+  teamReferrals: number;
+  teamSize: number;
+  ancestorIds: string[];
+  // Only confirmed referrals count toward the upline's totals
+  confirmed: boolean;
+}
+
+interface ReferralStatsSnapshot {
+  directReferrals: number;
+  teamReferrals: number;
+  teamSize: number;
+  ancestorIds: string[];
+  ancestorDepth: number;
+}
+
+export interface ReferralStatsChange {
+  uid: string;
+  before: ReferralStatsSnapshot;
+  after: ReferralStatsSnapshot;
+}
+
+// Where the referredBy graph and the ledger disagree about a user's counts
+export interface LedgerDrift {
+  uid: string;
+  ledger: { direct: number; team: number };
+  graph: { direct: number; team: number };
+}
+
+export interface RecomputeResult {
+  reportId: string;
+  dryRun: boolean;
+  totalUsers: number;
+  changedCount: number;
+  cycleCount: number;
+  driftCount: number;
+}
+
+/**
+ * Map each user to the uid of their direct referrer
+ */
+function buildParentMap(nodes: UserNode[]): Map<string, string> {
+  const codeToUid = new Map<string, string>();
+  for (const node of nodes) {
+    if (node.referralCode) codeToUid.set(node.referralCode, node.uid);
+    for (const alias of node.referralCodeAliases) {
+      if (!codeToUid.has(alias)) codeToUid.set(alias, node.uid);
+    }
+  }
+
+  const parents = new Map<string, string>();
+  for (const node of nodes) {
+    const parentUid = node.referredBy ? codeToUid.get(node.referredBy) : undefined;
+    if (!parentUid || parentUid === node.uid) continue;
+    parents.set(node.uid, parentUid);
+  }
+  return parents;
+}
+
+/**
+ * Compute every user's ancestor path (nearest first).
+ * A walk that meets one of its own nodes stops there, so cycles end the path;
+ * the walks that hit a cycle are returned so they can be flagged.
+ */
+export function computeAncestorPaths(nodes: UserNode[]): { paths: Map<string, string[]>; cycles: string[][] } {
+  const parents = buildParentMap(nodes);
+  const paths = new Map<string, string[]>();
+  const cycles: string[][] = [];
+
+  for (const node of nodes) {
+    if (paths.has(node.uid)) continue;
+
+    // Walk up until a root, a known path or a repeated node
+    const chain: string[] = [node.uid];
+    const seen = new Set<string>(chain);
+    let current = parents.get(node.uid);
+    while (current && !paths.has(current) && !seen.has(current)) {
+      chain.push(current);
+      seen.add(current);
+      current = parents.get(current);
+    }
+
+    let tail: string[] = [];
+    if (current && paths.has(current)) {
+      tail = [current, ...paths.get(current)!];
+    } else if (current) {
+      cycles.push([...chain, current]);
+    }
+
+    // Fill in paths from the top of the chain back down
+    for (let i = chain.length - 1; i >= 0; i--) {
+      paths.set(chain[i], tail);
+      tail = [chain[i], ...tail];
+    }
+  }
+
+  return { paths, cycles };
+}
+
+/**
+ * Compute direct and team counts for every node.
+ * Team count is the number of confirmed descendants; edges that close a cycle are ignored.
+ */
+export function computeReferralCounts(nodes: UserNode[]): Map<string, { direct: number; team: number }> {
+  const parents = buildParentMap(nodes);
+  const children = new Map<string, string[]>();
+  for (const [childUid, parentUid] of parents) {
+    if (!children.has(parentUid)) children.set(parentUid, []);
+    children.get(parentUid)!.push(childUid);
+  }
+
+  const confirmed = new Set(nodes.filter((node) => node.confirmed).map((node) => node.uid));
+  const counts = new Map<string, { direct: number; team: number }>();
+  const inProgress = new Set<string>();
+
+  // Iterative post-order traversal so deep trees do not overflow the stack
+  for (const node of nodes) {
+    if (counts.has(node.uid)) continue;
+
+    const stack: Array<{ uid: string; expanded: boolean }> = [{ uid: node.uid, expanded: false }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const kids = children.get(frame.uid) || [];
+
+      if (!frame.expanded) {
+        frame.expanded = true;
+        inProgress.add(frame.uid);
+        for (const kid of kids) {
+          if (!counts.has(kid) && !inProgress.has(kid)) {
+            stack.push({ uid: kid, expanded: false });
+          }
+        }
+        continue;
+      }
+
+      stack.pop();
+      inProgress.delete(frame.uid);
+      let direct = 0;
+      let team = 0;
+      for (const kid of kids) {
+        const kidCounts = counts.get(kid);
+        if (!kidCounts) continue; // Kid is an ancestor still in progress: cycle edge
+        if (confirmed.has(kid)) {
+          direct++;
+          team++;
+        }
+        team += kidCounts.team;
+      }
+      counts.set(frame.uid, { direct, team });
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Recompute counters for all users and write a diff report.
+ * When dryRun is true the report is written but users are left untouched.
+ */
+export async function runReferralStatsRecompute(options: {
+  dryRun: boolean;
+  triggeredBy: string;
+}): Promise<RecomputeResult> {
+  const { dryRun, triggeredBy } = options;
+
+  const usersSnapshot = await db.collection('users')
+    .select('referralCode', 'referral', 'referralCodeAliases', 'referredBy', 'referralChain', 'directReferrals', 'teamReferrals', 'teamSize', 'ancestorIds',
+      'referralStatus', 'profileCompleted', 'verification', 'isVerified', 'review')
+    .get();
+
+  const nodes: UserNode[] = usersSnapshot.docs.map((doc) => {
+    const data = doc.data();
+    const user = normalizeUser(doc.id, data);
+    return {
+      uid: doc.id,
+      referralCode: user.referralCode,
+      referralCodeAliases: user.referralCodeAliases,
+      referredBy: user.referredBy,
+      directReferrals: readCount(data.directReferrals),
+      teamReferrals: readCount(data.teamReferrals),
+      teamSize: readCount(data.teamSize),
+      ancestorIds: Array.isArray(data.ancestorIds) ? data.ancestorIds : [],
+      confirmed: referralStatusOf(data) === 'confirmed',
+    };
+  });
+
+  const ledgerSnapshot = await db.collection(REFERRAL_LEDGER_COLLECTION)
+    .where('status', '==', 'active')
+    .select('ancestorId', 'type')
+    .get();
+  const counts = countLedgerCredits(ledgerSnapshot.docs.map((doc) => ({
+    ancestorId: doc.get('ancestorId') as string,
+    type: doc.get('type') as ReferralCreditType,
+  })));
+
+  const graphCounts = computeReferralCounts(nodes);
+  const { paths, cycles } = computeAncestorPaths(nodes);
+  for (const cycle of cycles) {
+    await flagReferralChainProblem(cycle[0], 'referral_cycle', cycle.slice(1));
+  }
+  const changes: ReferralStatsChange[] = [];
+  const drift: LedgerDrift[] = [];
+
+  for (const node of nodes) {
+    const computed = counts.get(node.uid) || { direct: 0, team: 0 };
+    const graph = graphCounts.get(node.uid) || { direct: 0, team: 0 };
+    if (graph.direct !== computed.direct || graph.team !== computed.team) {
+      drift.push({ uid: node.uid, ledger: computed, graph });
+    }
+
+    const ancestorIds = paths.get(node.uid) || [];
+    if (
+      node.directReferrals === computed.direct &&
+      node.teamReferrals === computed.team &&
+      node.teamSize === computed.team &&
+      node.ancestorIds.join('/') === ancestorIds.join('/')
+    ) {
+      continue;
+    }
+
+    changes.push({
+      uid: node.uid,
+      before: {
+        directReferrals: node.directReferrals,
+        teamReferrals: node.teamReferrals,
+        teamSize: node.teamSize,
+        ancestorIds: node.ancestorIds,
+        ancestorDepth: node.ancestorIds.length,
+      },
+      after: {
+        directReferrals: computed.direct,
+        teamReferrals: computed.team,
+        teamSize: computed.team,
+        ancestorIds,
+        ancestorDepth: ancestorIds.length,
+      },
+    });
+  }
+
+  const reportRef = db.collection(REPORTS_COLLECTION).doc();
+  await reportRef.set({
+    dryRun,
+    triggeredBy,
+    totalUsers: nodes.length,
+    changedCount: changes.length,
+    cycleCount: cycles.length,
+    driftCount: drift.length,
+    status: 'running',
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  for (let i = 0; i < changes.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const change of changes.slice(i, i + BATCH_SIZE)) {
+      batch.set(reportRef.collection('changes').doc(change.uid), change);
+
+      if (!dryRun) {
+        batch.update(db.collection('users').doc(change.uid), {
+          ...change.after,
+          lastStatsUpdate: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+    }
+    await batch.commit();
+  }
+
+  for (let i = 0; i < drift.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const entry of drift.slice(i, i + BATCH_SIZE)) {
+      batch.set(reportRef.collection('ledger_drift').doc(entry.uid), entry);
+    }
+    await batch.commit();
+  }
+
+  await reportRef.update({
+    status: dryRun ? 'dry_run' : 'applied',
+    completedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  logger.info(`Referral stats recompute ${reportRef.id}: ${changes.length} of ${nodes.length} users changed (dryRun=${dryRun})`);
+  if (drift.length > 0) {
+    logger.warn(`Referral stats recompute ${reportRef.id}: ledger and referredBy graph disagree for ${drift.length} users`);
+  }
+
+  return {
+    reportId: reportRef.id,
+    dryRun,
+    totalUsers: nodes.length,
+    changedCount: changes.length,
+    cycleCount: cycles.length,
+    driftCount: drift.length,
+  };
+}
+
+/**
+ * recomputeReferralStats (callable)
+ *
+ * ADMIN ONLY: Rebuilds referral counters from the ledger and ancestor paths
+ * from the referredBy graph, and reports where the two disagree.
+ * Also backfills ancestorIds for users registered before paths existed.
+ * Defaults to a dry run; pass { dryRun: false } to apply the changes.
+ *
+ * Returns: { reportId, dryRun, totalUsers, changedCount, cycleCount, driftCount }
+ */
+export const recomputeReferralStats = onCall(async (request) => {
+  const uid = await requireAdmin(request);
+  const dryRun = request.data?.dryRun !== false;
+
+  return runReferralStatsRecompute({ dryRun, triggeredBy: uid });
+});
+
+/**
+ * Nightly recompute of referral counters and ancestor paths
+ */
+export const scheduledReferralStatsRecompute = onSchedule(
+  { schedule: 'every day 02:00', timeZone: 'Asia/Kolkata', timeoutSeconds: 540, memory: '1GiB' },
+  async () => {
+    await runReferralStatsRecompute({ dryRun: false, triggeredBy: 'scheduler' });
+  }
+);
@@ -0,0 +1,107 @@
+/**
+ * Referral Reversal
+ * Removes a member's referral credits from their whole upline when the
+ * account is deleted, banned or found to be fraudulent.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentDeleted, onDocumentUpdated } from "firebase-functions/v2/firestore";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { requireAdmin } from "./admin-guard";
+import { logAdminAction } from "./admin-system";
+import { reevaluateUserRole } from "./automatic-role-promotion";
+import { reverseUplineCredits } from "./referral-ledger";
+
+const db = admin.firestore();
+
+/**
+ * Reverse a user's credits, mark their referral revoked, re-evaluate every
+ * affected ancestor's role and record the adjustment in transparency_logs.
+ * Returns the uids of the ancestors whose counts changed.
+ */
+export async function reverseReferral(targetUid: string, reason: string, actorUid: string): Promise<string[]> {
+  const affected = await reverseUplineCredits(targetUid, reason);
+
+  const targetRef = db.collection('users').doc(targetUid);
+  if ((await targetRef.get()).exists) {
+    await targetRef.update({
+      referralStatus: 'revoked',
+      referralRevokedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  for (const ancestorId of affected) {
+    try {
+      await reevaluateUserRole(ancestorId);
+    } catch (error) {
+      logger.error(`Failed to re-evaluate role for ${ancestorId} after reversal:`, error);
+    }
+  }
+
+  await logAdminAction({
+    adminUid: actorUid,
+    action: 'referral_reversal',
+    targetUid,
+    details: { reason, affectedCount: affected.length, affectedAncestors: affected },
+    timestamp: admin.firestore.FieldValue.serverTimestamp()
+  });
+
+  logger.info(`Reversed referral credits of ${targetUid} from ${affected.length} ancestors (${reason})`);
+  return affected;
+}
+
+/**
+ * reverseReferralCredits (callable)
+ *
+ * ADMIN ONLY: Removes a member's referral credits from their upline,
+ * e.g. for a fraudulent sign-up.
+ *
+ * Params: { targetUid, reason? }
+ * Returns: { success, affectedCount }
+ */
+export const reverseReferralCredits = onCall(async (request) => {
+  const adminUid = await requireAdmin(request);
+
+  const { targetUid, reason = 'fraud' } = request.data || {};
+  if (!targetUid || typeof targetUid !== 'string') {
+    throw new HttpsError('invalid-argument', 'targetUid is required');
+  }
+
+  try {
+    const affected = await reverseReferral(targetUid, String(reason), adminUid);
+    return { success: true, affectedCount: affected.length };
+  } catch (error) {
+    logger.error(`Failed to reverse referral credits for ${targetUid}:`, error);
+    throw new HttpsError('internal', 'Failed to reverse referral credits');
+  }
+});
+
+/**
+ * Reverse credits when a user is banned (moderateContent, bulkModerateUsers)
+ */
+export const reverseReferralOnBan = onDocumentUpdated('users/{userId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+
+  if (!before || !after || before.status === 'banned' || after.status !== 'banned') {
+    return;
+  }
+
+  try {
+    await reverseReferral(event.params.userId, 'banned', after.bannedBy || 'system');
+  } catch (error) {
+    logger.error(`Failed to reverse referral credits for banned user ${event.params.userId}:`, error);
+  }
+});
+
+/**
+ * Reverse credits when a user document is deleted
+ */
+export const reverseReferralOnDelete = onDocumentDeleted('users/{userId}', async (event) => {
+  try {
+    await reverseReferral(event.params.userId, 'account_deleted', 'system');
+  } catch (error) {
+    logger.error(`Failed to reverse referral credits for deleted user ${event.params.userId}:`, error);
+  }
+});
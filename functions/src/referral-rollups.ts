@@ -0,0 +1,333 @@
+/**
+ * Referral Rollups
+ * Pre-aggregated daily / weekly / monthly join counts per member, kept in
+ * step with the referral ledger so stats reads never scan a whole team.
+ *
+ * referral_rollups/{uid}/daily/{YYYY-MM-DD}
+ * referral_rollups/{uid}/weekly/{YYYY-Www}   (ISO week)
+ * referral_rollups/{uid}/monthly/{YYYY-MM}
+ *
+ * Each document holds { period, direct, team }. Periods use India time and
+ * count a join on the day the member joined.
+ *
+ * referral_rollup_entries/{ledgerEntryId} = { ancestorId, at, direct, team }
+ * records what each ledger entry has added, which makes updates idempotent.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { requireAdmin } from "./admin-guard";
+import { logAdminAction } from "./admin-system";
+import { REFERRAL_LEDGER_COLLECTION } from "./referral-ledger";
+
+const db = admin.firestore();
+
+export const ROLLUPS_COLLECTION = 'referral_rollups';
+// What each ledger entry has added to the rollups, by ledger entry id
+export const ROLLUP_ENTRIES_COLLECTION = 'referral_rollup_entries';
+
+const DEFAULT_REBUILD_PAGE_SIZE = 50;
+const MAX_REBUILD_PAGE_SIZE = 200;
+
+export type RollupGranularity = 'daily' | 'weekly' | 'monthly';
+
+export interface RollupPoint {
+  period: string;
+  direct: number;
+  team: number;
+}
+
+interface RollupContribution {
+  ancestorId: string;
+  at: Date;
+  direct: number;
+  team: number;
+}
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * A Date shifted so its UTC fields read as India local time
+ */
+function toIst(date: Date): Date {
+  return new Date(date.getTime() + IST_OFFSET_MS);
+}
+
+export function dailyPeriod(date: Date): string {
+  const ist = toIst(date);
+  return `${ist.getUTCFullYear()}-${pad(ist.getUTCMonth() + 1)}-${pad(ist.getUTCDate())}`;
+}
+
+export function weeklyPeriod(date: Date): string {
+  const ist = toIst(date);
+  // ISO week: the week belongs to the year of its Thursday
+  const day = ist.getUTCDay() || 7;
+  const thursday = new Date(Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth(), ist.getUTCDate() + 4 - day));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((thursday.getTime() - yearStart) / DAY_MS + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${pad(week)}`;
+}
+
+export function monthlyPeriod(date: Date): string {
+  const ist = toIst(date);
+  return `${ist.getUTCFullYear()}-${pad(ist.getUTCMonth() + 1)}`;
+}
+
+const PERIOD_KEYS: Record<RollupGranularity, (date: Date) => string> = {
+  daily: dailyPeriod,
+  weekly: weeklyPeriod,
+  monthly: monthlyPeriod,
+};
+
+/**
+ * What a ledger entry contributes to its ancestor's rollups. Joins are
+ * counted on the day the member joined; entries from before joinedAt was
+ * recorded fall back to the day of the credit.
+ */
+function contribution(entry: admin.firestore.DocumentData | undefined): RollupContribution | null {
+  if (!entry || entry.status === 'reversed') return null;
+  const at = entry.joinedAt instanceof admin.firestore.Timestamp ? entry.joinedAt : entry.createdAt;
+  if (!(at instanceof admin.firestore.Timestamp)) return null;
+
+  return {
+    ancestorId: entry.ancestorId,
+    at: at.toDate(),
+    direct: entry.type === 'direct' ? 1 : 0,
+    team: 1,
+  };
+}
+
+function sameContribution(a: RollupContribution | null, b: RollupContribution | null): boolean {
+  if (!a || !b) return a === b;
+  return a.ancestorId === b.ancestorId && a.at.getTime() === b.at.getTime() && a.direct === b.direct && a.team === b.team;
+}
+
+function entryMarker(item: RollupContribution): admin.firestore.DocumentData {
+  return {
+    ancestorId: item.ancestorId,
+    at: admin.firestore.Timestamp.fromDate(item.at),
+    direct: item.direct,
+    team: item.team,
+  };
+}
+
+function markerContribution(marker: admin.firestore.DocumentData | undefined): RollupContribution | null {
+  if (!marker || !(marker.at instanceof admin.firestore.Timestamp)) return null;
+  return { ancestorId: marker.ancestorId, at: marker.at.toDate(), direct: marker.direct, team: marker.team };
+}
+
+function applyContribution(
+  tx: admin.firestore.Transaction,
+  item: RollupContribution,
+  sign: 1 | -1
+): void {
+  const rollupRef = db.collection(ROLLUPS_COLLECTION).doc(item.ancestorId);
+
+  for (const granularity of Object.keys(PERIOD_KEYS) as RollupGranularity[]) {
+    const period = PERIOD_KEYS[granularity](item.at);
+    tx.set(rollupRef.collection(granularity).doc(period), {
+      period,
+      direct: admin.firestore.FieldValue.increment(sign * item.direct),
+      team: admin.firestore.FieldValue.increment(sign * item.team),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+  }
+}
+
+/**
+ * Bring the rollups in line with a ledger entry's current state.
+ * ROLLUP_ENTRIES_COLLECTION/{entryId} records what the entry has added, so
+ * running this again (a retried trigger, a late event) changes nothing.
+ * Returns whether any rollup changed.
+ */
+export async function syncEntryRollups(entryId: string): Promise<boolean> {
+  const entryRef = db.collection(REFERRAL_LEDGER_COLLECTION).doc(entryId);
+  const markerRef = db.collection(ROLLUP_ENTRIES_COLLECTION).doc(entryId);
+
+  return db.runTransaction(async (tx) => {
+    const [entrySnap, markerSnap] = await tx.getAll(entryRef, markerRef);
+    const wanted = contribution(entrySnap.data());
+    const applied = markerContribution(markerSnap.data());
+    if (sameContribution(wanted, applied)) return false;
+
+    if (applied) applyContribution(tx, applied, -1);
+    if (wanted) {
+      applyContribution(tx, wanted, 1);
+      tx.set(markerRef, entryMarker(wanted));
+    } else {
+      tx.delete(markerRef);
+    }
+    return true;
+  });
+}
+
+/**
+ * Keep rollups in step with ledger entries being created, reversed,
+ * re-activated or moved to a different depth. Failures are retried.
+ */
+export const updateReferralRollups = onDocumentWritten(
+  { document: `${REFERRAL_LEDGER_COLLECTION}/{entryId}`, retry: true },
+  async (event) => {
+    try {
+      await syncEntryRollups(event.params.entryId);
+    } catch (error) {
+      logger.error(`Failed to update referral rollups for ledger entry ${event.params.entryId}:`, error);
+      throw error;
+    }
+  }
+);
+
+/**
+ * Rollup documents and entry markers for one member rebuilt from the ledger
+ */
+async function rebuildMemberRollups(uid: string, dryRun: boolean, writer: admin.firestore.BulkWriter): Promise<boolean> {
+  const rollupRef = db.collection(ROLLUPS_COLLECTION).doc(uid);
+  const entries = await db.collection(REFERRAL_LEDGER_COLLECTION).where('ancestorId', '==', uid).get();
+
+  const wanted = new Map<string, RollupPoint>();
+  const markers = new Map<string, RollupContribution | null>();
+  for (const entry of entries.docs) {
+    const item = contribution(entry.data());
+    markers.set(entry.id, item);
+    if (!item) continue;
+    for (const granularity of Object.keys(PERIOD_KEYS) as RollupGranularity[]) {
+      const key = `${granularity}/${PERIOD_KEYS[granularity](item.at)}`;
+      const point = wanted.get(key) || { period: PERIOD_KEYS[granularity](item.at), direct: 0, team: 0 };
+      point.direct += item.direct;
+      point.team += item.team;
+      wanted.set(key, point);
+    }
+  }
+
+  const existing = await Promise.all((Object.keys(PERIOD_KEYS) as RollupGranularity[])
+    .map((granularity) => rollupRef.collection(granularity).get()));
+  const stored = new Map<string, admin.firestore.DocumentData>();
+  for (const snapshot of existing) {
+    for (const doc of snapshot.docs) stored.set(`${doc.ref.parent.id}/${doc.id}`, doc.data());
+  }
+
+  let changed = false;
+  for (const [key, point] of wanted) {
+    const current = stored.get(key);
+    if (current && current.direct === point.direct && current.team === point.team) continue;
+    changed = true;
+    if (!dryRun) {
+      writer.set(rollupRef.collection(key.split('/')[0]).doc(point.period), {
+        ...point,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  }
+  for (const key of stored.keys()) {
+    if (wanted.has(key)) continue;
+    changed = true;
+    if (!dryRun) writer.delete(rollupRef.collection(key.split('/')[0]).doc(key.split('/')[1]));
+  }
+
+  if (!dryRun) {
+    for (const [entryId, item] of markers) {
+      const markerRef = db.collection(ROLLUP_ENTRIES_COLLECTION).doc(entryId);
+      if (item) writer.set(markerRef, entryMarker(item));
+      else writer.delete(markerRef);
+    }
+  }
+  return changed;
+}
+
+/**
+ * rebuildReferralRollups (callable)
+ *
+ * ADMIN ONLY: Rebuilds the rollups of one page of members from the ledger,
+ * replacing counts that drifted (rollups from before joinedAt or entry
+ * markers existed). Defaults to a dry run; pass { dryRun: false } to write.
+ * Ledger writes for a member while their page runs can leave that member
+ * off by one; running the page again corrects it.
+ *
+ * Params: { dryRun?, pageSize?, pageToken? }
+ * Returns: { dryRun, scanned, rebuilt, sample, nextPageToken }
+ */
+export const rebuildReferralRollups = onCall(async (request) => {
+  const adminUid = await requireAdmin(request);
+
+  const { pageSize = DEFAULT_REBUILD_PAGE_SIZE, pageToken } = request.data || {};
+  const dryRun = request.data?.dryRun !== false;
+  const limit = Math.min(Math.max(Number(pageSize) || DEFAULT_REBUILD_PAGE_SIZE, 1), MAX_REBUILD_PAGE_SIZE);
+
+  if (pageToken != null && typeof pageToken !== 'string') {
+    throw new HttpsError('invalid-argument', 'pageToken must be a string');
+  }
+
+  try {
+    let query = db.collection('users')
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .select()
+      .limit(limit);
+    if (pageToken) query = query.startAfter(pageToken);
+    const snapshot = await query.get();
+
+    const writer = db.bulkWriter();
+    const rebuilt: string[] = [];
+    for (const doc of snapshot.docs) {
+      if (await rebuildMemberRollups(doc.id, dryRun, writer)) rebuilt.push(doc.id);
+    }
+    await writer.close();
+
+    if (!dryRun && rebuilt.length > 0) {
+      await logAdminAction({
+        adminUid,
+        action: 'rebuild_referral_rollups',
+        details: { rebuilt: rebuilt.length, from: pageToken || null },
+        timestamp: admin.firestore.FieldValue.serverTimestamp()
+      });
+    }
+
+    const last = snapshot.docs[snapshot.docs.length - 1];
+    const nextPageToken = snapshot.docs.length === limit ? last.id : null;
+
+    logger.info(`Rollup rebuild page from ${pageToken || 'start'}: ${rebuilt.length} of ${snapshot.size} rebuilt (dryRun=${dryRun})`);
+    return { dryRun, scanned: snapshot.size, rebuilt: rebuilt.length, sample: rebuilt.slice(0, 20), nextPageToken };
+
+  } catch (error) {
+    if (error instanceof HttpsError) throw error;
+    logger.error('Rollup rebuild failed:', error);
+    throw new HttpsError('internal', 'Rollup rebuild failed');
+  }
+});
+
+/**
+ * Read a member's rollup points for a granularity from a start period onward
+ */
+export async function loadRollups(uid: string, granularity: RollupGranularity, since: Date): Promise<RollupPoint[]> {
+  const snapshot = await db.collection(ROLLUPS_COLLECTION).doc(uid)
+    .collection(granularity)
+    .where(admin.firestore.FieldPath.documentId(), '>=', PERIOD_KEYS[granularity](since))
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .get();
+
+  return snapshot.docs.map((doc) => ({
+    period: doc.id,
+    direct: doc.data().direct || 0,
+    team: doc.data().team || 0,
+  }));
+}
+
+/**
+ * Sum of joins across points on or after a start day
+ */
+export function sumSince(points: RollupPoint[], since: Date): { direct: number; team: number } {
+  const start = dailyPeriod(since);
+  return points
+    .filter((point) => point.period >= start)
+    .reduce((total, point) => ({ direct: total.direct + point.direct, team: total.team + point.team }), { direct: 0, team: 0 });
+}
+
+export function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * DAY_MS);
+}
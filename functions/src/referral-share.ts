@@ -0,0 +1,106 @@
+/**
+ * Referral Share Links and QR Codes
+ * Signed deep links for WhatsApp and printed flyers, with an SVG QR code
+ * rendered in-process (no external QR service).
+ *
+ * Link: https://talowa.web.app/join?ref=<code>&sig=<signature>
+ *
+ * The signature is an HMAC of the code under REFERRAL_LINK_SECRET. Links
+ * carry no expiry so printed material keeps working; registerUserProfile
+ * checks the signature when the app sends it back with the code.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { defineSecret } from "firebase-functions/params";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { createHmac, timingSafeEqual } from "crypto";
+import * as QRCode from "qrcode";
+import { getUser } from "./user-model";
+
+const db = admin.firestore();
+
+export const REFERRAL_LINK_SECRET = defineSecret('REFERRAL_LINK_SECRET');
+
+const SHARE_BASE_URL = 'https://talowa.web.app/join';
+const SIGNATURE_VERSION = 'v1';
+// 22 base64url characters carry 132 bits of the HMAC
+const SIGNATURE_LENGTH = 22;
+
+/**
+ * Signature of a referral code for share links
+ */
+export function signReferralCode(code: string, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(`${SIGNATURE_VERSION}:${code}`)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH);
+}
+
+/**
+ * Constant-time check of a share link signature
+ */
+export function verifyReferralSignature(code: string, signature: string, secret: string): boolean {
+  if (typeof signature !== 'string' || signature.length !== SIGNATURE_LENGTH) return false;
+
+  const expected = Buffer.from(signReferralCode(code, secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function buildShareLink(code: string, signature: string): string {
+  const params = new URLSearchParams({ ref: code, sig: signature });
+  return `${SHARE_BASE_URL}?${params.toString()}`;
+}
+
+/**
+ * getReferralShareLink (callable)
+ *
+ * Returns a signed link and QR code for the caller's own code, or for
+ * another code they own (campaign or vanity alias) when code is given.
+ *
+ * Params: { code? }
+ * Returns: { code, link, signature, qrSvg, whatsappUrl }
+ */
+export const getReferralShareLink = onCall({ secrets: [REFERRAL_LINK_SECRET] }, async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) throw new HttpsError('unauthenticated', 'User must be authenticated');
+
+  const requestedCode = request.data?.code;
+
+  let code: string | undefined;
+  if (requestedCode) {
+    if (typeof requestedCode !== 'string') {
+      throw new HttpsError('invalid-argument', 'code must be a string');
+    }
+    const codeDoc = await db.collection('referralCodes').doc(requestedCode).get();
+    if (codeDoc.data()?.uid !== uid) {
+      throw new HttpsError('permission-denied', 'You can only share your own codes');
+    }
+    code = requestedCode;
+  } else {
+    code = (await getUser(uid))?.referralCode ?? undefined;
+  }
+
+  if (!code) {
+    throw new HttpsError('failed-precondition', 'No referral code assigned yet');
+  }
+
+  try {
+    const signature = signReferralCode(code, REFERRAL_LINK_SECRET.value());
+    const link = buildShareLink(code, signature);
+    const qrSvg = await QRCode.toString(link, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+    const message = `Join TALOWA with my referral code ${code}: ${link}`;
+
+    return {
+      code,
+      link,
+      signature,
+      qrSvg,
+      whatsappUrl: `https://wa.me/?text=${encodeURIComponent(message)}`,
+    };
+  } catch (error) {
+    logger.error(`Failed to build share link for ${uid}:`, error);
+    throw new HttpsError('internal', 'Failed to build share link');
+  }
+});
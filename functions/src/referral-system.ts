@@ -4,9 +4,36 @@
  * Handles automatic referral chain updates and role promotions
  */
 
-import { onCall } from "firebase-functions/v2/https";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
+import {
+  confirmReferral,
+  isReferralConfirmable,
+  referralStatusOf,
+  resolveAncestorPath,
+} from "./referral-attribution";
+import {
+  campaignAttributionFields,
+  campaignCodeProblem,
+  isCampaignCode,
+  redeemCampaignCode,
+  resolveCampaignReferral,
+} from "./referral-campaigns";
+import { isValidReferralCodeFormat, isVanityCode, reserveNewReferralCode } from "./referral-code";
+import { isAdminUser } from "./admin-guard";
+import { maxPromotionLevel } from "./member-verification";
+import { REFERRAL_LEDGER_COLLECTION } from "./referral-ledger";
+import { Region } from "./region";
+import { REFERRAL_LINK_SECRET, verifyReferralSignature } from "./referral-share";
+import { normalizePhone, requirePhone } from "./phone";
+import { registrationPinFields } from "./pin";
+import { addressFields, LocationCodes, locationFields, resolveLocation } from "./geography";
+import { clientIp, consumeRateLimit, RateLimit } from "./rate-limit";
+import { dailyPeriod, daysAgo, loadRollups, RollupPoint, sumSince } from "./referral-rollups";
+import { MAX_REFERRAL_DEPTH, pathFromReferrer, resolveReferrerByCode } from "./referral-path";
+import { normalizeUser, toUserDocument, USER_SCHEMA_VERSION } from "./user-model";
+import { applyScreening, screenRegistration } from "./registration-review";
 
 // Initialize Firebase Admin (if not already initialized)
 if (!admin.apps.length) {
@@ -31,12 +58,24 @@ const TALOWA_ROLE_THRESHOLDS = [
 /**
  * Process referral chain for a user (callable function)
  * Adapted from BSS processReferral function
+ *
+ * Every credit is written to the referral ledger, so calling this again
+ * for the same user does not change any counters. Referrals are only
+ * credited once confirmable (see referral-attribution.ts).
+ *
+ * Members may process their own referral; admins anyone's.
  */
 export const processReferral = onCall(async (request) => {
-  const { userId } = request.data;
+  const callerUid = request.auth?.uid;
+  if (!callerUid) throw new Error('UNAUTHENTICATED');
+
+  const { userId } = request.data || {};
   if (!userId) {
     throw new Error('userId is required');
   }
+  if (userId !== callerUid && !(await isAdminUser(callerUid, request.auth?.token.role))) {
+    throw new Error('PERMISSION_DENIED');
+  }
 
   const newUserDocRef = db.collection('users').doc(userId);
   const userDoc = await newUserDocRef.get();
@@ -46,11 +85,17 @@ export const processReferral = onCall(async (request) => {
   }
 
   const newUser = userDoc.data()!;
-  let referredByCode = newUser.referredBy;
+  let referredByCode = normalizeUser(userId, newUser).referredBy;
+
+  // Members registered before referredBy existed only have the code in referralChain
+  if (referredByCode && newUser.referredBy !== referredByCode) {
+    await newUserDocRef.update({ referredBy: referredByCode });
+    newUser.referredBy = referredByCode;
+  }
 
   logger.log(`🔍 PROCESSING REFERRAL DEBUG:`);
   logger.log(`   User: ${newUser.fullName} (${userId})`);
-  logger.log(`   Phone: ${newUser.phoneNumber}`);
+  logger.log(`   Phone: ${normalizeUser(userId, newUser).phoneE164}`);
   logger.log(`   Original referredBy: "${referredByCode}"`);
   logger.log(`   Is referredBy empty/null? ${!referredByCode}`);
 
@@ -65,67 +110,43 @@ export const processReferral = onCall(async (request) => {
     logger.log(`✅ Assigned user ${newUser.fullName} to admin with code ${adminReferralCode}`);
   } else {
     logger.log(`✅ User ${newUser.fullName} has valid referral code: "${referredByCode}"`);
+
+    // Campaign codes resolve to their owner's permanent code
+    const ownerCode = await resolveCampaignReferral(userId, referredByCode);
+    if (ownerCode !== referredByCode) {
+      logger.log(`Campaign code ${referredByCode} resolved to owner code ${ownerCode}`);
+      referredByCode = ownerCode;
+      newUser.referredBy = ownerCode;
+    }
   }
 
   // Process referral chain for all users (including those assigned to admin)
   if (referredByCode) {
     logger.log(`Processing referral chain for ${newUser.fullName}. Referred by code: ${referredByCode}`);
 
-    const usersRef = db.collection("users");
-    let currentReferrerCode = referredByCode;
-    let isDirectReferral = true;
-    const batch = db.batch();
-
     try {
-      // Traverse up the referral chain
-      while (currentReferrerCode) {
-        const referrerQuery = usersRef.where("referralCode", "==", currentReferrerCode).limit(1);
-        const referrerSnapshot = await referrerQuery.get();
-
-        if (referrerSnapshot.empty) {
-          logger.warn(`Referrer with code ${currentReferrerCode} not found. Stopping chain.`);
-          break;
-        }
+      const status = referralStatusOf(newUser);
 
-        const referrerDoc = referrerSnapshot.docs[0];
-        const referrerDocRef = referrerDoc.ref;
-        const referrerData = referrerDoc.data();
-
-        logger.log(`Found referrer: ${referrerData.fullName} (${referrerDoc.id})`);
-
-        if (isDirectReferral) {
-          // First person in chain gets both direct and team referral credit
-          batch.update(referrerDocRef, {
-            directReferrals: admin.firestore.FieldValue.increment(1),
-            teamReferrals: admin.firestore.FieldValue.increment(1),
-            teamSize: admin.firestore.FieldValue.increment(1), // Keep both for compatibility
-            lastStatsUpdate: admin.firestore.FieldValue.serverTimestamp(),
-          });
-          logger.log(`Credited direct referral to ${referrerData.fullName} (${currentReferrerCode})`);
-          isDirectReferral = false;
-        } else {
-          // Upline members only get team referral credit
-          batch.update(referrerDocRef, {
-            teamReferrals: admin.firestore.FieldValue.increment(1),
-            teamSize: admin.firestore.FieldValue.increment(1), // Keep both for compatibility
-            lastStatsUpdate: admin.firestore.FieldValue.serverTimestamp(),
-          });
-          logger.log(`Credited team referral to ${referrerData.fullName} (${currentReferrerCode})`);
-        }
-
-        // Stop if we reach admin (admin has no upline)
-        if (currentReferrerCode === "TALADMIN") {
-          logger.log("Reached TALADMIN code. Stopping chain traversal after crediting admin.");
-          break;
-        }
+      if (status === 'revoked') {
+        logger.log(`Referral for ${newUser.fullName} was revoked. Not crediting.`);
+        return { success: false, message: 'Referral revoked', status };
+      }
 
-        // Move to next person up the chain
-        currentReferrerCode = referrerData.referredBy;
+      // Unconfirmable referrals only get their path; credit waits for confirmation
+      if (!isReferralConfirmable(newUser)) {
+        await resolveAncestorPath(userId, newUser, referredByCode);
+        logger.log(`Referral for ${newUser.fullName} is pending confirmation.`);
+        return { success: true, message: 'Referral pending confirmation', status, credited: 0 };
       }
 
-      // Commit all updates in a single batch
-      await batch.commit();
-      logger.log("Successfully credited referrals up the chain.");
+      const credited = await confirmReferral(userId, newUser, referredByCode);
+
+      return {
+        success: true,
+        message: credited > 0 ? 'Referral processed successfully' : 'Referral already processed',
+        status: 'confirmed',
+        credited,
+      };
 
     } catch (error) {
       logger.error("Error processing referral chain:", error);
@@ -160,7 +181,8 @@ export const autoPromoteUser = onCall(async (request) => {
     return { success: false, message: 'Admin users cannot be promoted' };
   }
 
-  const { directReferrals, teamReferrals, currentRoleLevel } = userData;
+  const { directReferrals, teamReferrals, currentRoleLevel } = normalizeUser(userId, userData);
+  const maxLevel = maxPromotionLevel(userData);
 
   let newRole = { level: 1, name: "Member" }; // Default role
 
@@ -170,7 +192,7 @@ export const autoPromoteUser = onCall(async (request) => {
     const meetsTeam = teamReferrals >= role.team;
 
     // Check if user meets requirements for this role and it's higher than current
-    if (meetsDirect && meetsTeam && role.level > currentRoleLevel) {
+    if (meetsDirect && meetsTeam && role.level > currentRoleLevel && role.level <= maxLevel) {
       newRole = role;
       break; // Found the highest eligible role
     }
@@ -279,32 +301,143 @@ export const fixOrphanedUsers = onCall(async (request) => {
   }
 });
 
-// Referral code generation utilities - using inline generation
+/**
+ * Resolve the referral code entered at registration.
+ * Returns the fields that place the new user in the tree, or {} when the
+ * code is missing or unknown (processReferral assigns those users later).
+ * Members who are already placed keep their upline: a repeated registration
+ * never re-parents them (that is reassignReferrer's job, with its ledger moves).
+ * Rejects self-referral and codes that would put the user in their own upline,
+ * and campaign codes that are expired, used up or meant for another region.
+ */
+async function registrationReferralFields(
+  tx: admin.firestore.Transaction,
+  uid: string,
+  referralCode: string | null | undefined,
+  existingUser: admin.firestore.DocumentData | undefined,
+  region: Region,
+  codes: LocationCodes
+): Promise<admin.firestore.DocumentData> {
+  if (!referralCode) return {};
+
+  const existing = existingUser && normalizeUser(uid, existingUser);
+  if (existing?.referredBy || existing?.referrerUid) {
+    if (existing.referredBy !== referralCode && existing.referralCampaign?.code !== referralCode) {
+      logger.warn(`Ignoring referral code ${referralCode} for ${uid}, already placed under ${existing.referredBy}`);
+    }
+    return {};
+  }
+
+  const codeSnap = await tx.get(db.collection('referralCodes').doc(referralCode));
+  const campaign = codeSnap.data();
+
+  const referrer = await resolveReferrerByCode(referralCode, tx);
+  if (!referrer) {
+    logger.warn(`Referral code ${referralCode} not found at registration`);
+    return {};
+  }
+
+  if (referrer.uid === uid) {
+    throw new Error('SELF_REFERRAL');
+  }
+
+  const path = pathFromReferrer(referrer.uid, referrer.data);
+  if (path.ancestorIds.includes(uid)) {
+    throw new Error('CYCLIC_REFERRAL');
+  }
+  if (path.ancestorDepth > MAX_REFERRAL_DEPTH) {
+    throw new Error('REFERRAL_DEPTH_EXCEEDED');
+  }
+
+  const fields: admin.firestore.DocumentData = {
+    referredBy: referralCode,
+    referrerUid: referrer.uid,
+    ...path
+  };
+
+  // Campaign codes place the member under the owner's permanent code
+  if (isCampaignCode(campaign)) {
+    fields.referredBy = referrer.data.referralCode || referralCode;
+
+    // Retried registrations must not use the code twice
+    if (existingUser?.referralCampaign?.code !== referralCode) {
+      const problem = campaignCodeProblem(campaign, region, codes);
+      if (problem) {
+        throw new Error(problem);
+      }
+      redeemCampaignCode(tx, referralCode);
+      Object.assign(fields, campaignAttributionFields(referralCode, campaign));
+    }
+  }
 
-function isValidReferralCodeFormat(code: string): boolean {
-  if (!code || typeof code !== 'string') return false;
-  const normalized = code.toUpperCase().trim();
-  return /^TAL[23456789ABCDEFGHJKMNPQRSTUVWXYZ]{7,8}$/.test(normalized);
+  return fields;
+}
+
+/**
+ * Fields only written when the user document is first created, so a repeated
+ * registration cannot reset counters an existing member has earned
+ */
+function newUserFields(existingUser: admin.firestore.DocumentSnapshot): admin.firestore.DocumentData {
+  if (existingUser.exists) return {};
+  return {
+    schemaVersion: USER_SCHEMA_VERSION,
+    directReferrals: 0,
+    teamReferrals: 0,
+    verification: { status: 'unverified' },
+    isVerified: false,
+  };
+}
+
+/**
+ * profileCompleted is server-owned: a registration with a name and a village
+ * completes the profile, and nothing here un-completes it
+ */
+function profileFields(fullName: unknown, region: Region): admin.firestore.DocumentData {
+  const complete = typeof fullName === 'string' && !!fullName.trim() && !!region.village;
+  return complete ? { profileCompleted: true } : {};
 }
 
 /**
  * registerUserProfile (callable)
  *
  * - Idempotently creates/updates users/{uid}
- * - Atomically claims phones/{e164} -> { uid }
+ * - Normalizes e164 (throws INVALID_PHONE) and atomically claims phones/{e164} -> { uid }
+ * - Maps the location onto reference codes (throws UNKNOWN_STATE / _DISTRICT / _MANDAL / _VILLAGE)
+ * - Places the user under their referrer with a materialized ancestor path
+ * - Checks referralSignature when the code came from a share link
+ * - Holds new members that look like duplicate accounts for review
+ *   (same name and village, same deviceFingerprint, or a burst of sign-ups
+ *   under the referrer) and flags them
  * - Optionally simulates payment (membershipPaid=true)
  */
-export const registerUserProfile = onCall(async (req) => {
+export const registerUserProfile = onCall({ secrets: [REFERRAL_LINK_SECRET] }, async (req) => {
   const uid = req.auth?.uid;
   if (!uid) throw new Error('UNAUTHENTICATED');
 
   const {
-    e164, fullName, aliasEmail, pinHashHex,
+    e164: phoneInput, fullName, aliasEmail, pin, pinHashHex,
     state, district, mandal, village,
-    referralCode, simulatePayment = true
+    referralCode, referralSignature, deviceFingerprint, simulatePayment = true
   } = req.data || {};
 
-  if (!e164 || !pinHashHex) throw new Error('INVALID_ARGUMENT');
+  if (!phoneInput) throw new Error('INVALID_ARGUMENT');
+  const e164 = requirePhone(phoneInput);
+  const security = await registrationPinFields(pin, pinHashHex);
+  const location = resolveLocation({ state, district, mandal, village });
+  if (!location.ok) throw new Error(location.problem);
+
+  // A code from a share link must carry the signature it was issued with
+  if (referralSignature != null) {
+    if (!referralCode || !verifyReferralSignature(referralCode, referralSignature, REFERRAL_LINK_SECRET.value())) {
+      logger.warn(`Invalid share link signature for code ${referralCode} from ${uid}`);
+      throw new Error('INVALID_REFERRAL_SIGNATURE');
+    }
+  }
+
+  const referrer = referralCode ? await resolveReferrerByCode(referralCode) : null;
+  const screening = await screenRegistration(uid, {
+    fullName, region: location.region, deviceFingerprint, referrerUid: referrer?.uid ?? null
+  });
 
   const userRef = db.collection('users').doc(uid);
   const phoneRef = db.collection('phones').doc(e164);
@@ -312,9 +445,21 @@ export const registerUserProfile = onCall(async (req) => {
   await db.runTransaction(async (tx) => {
     // Claim phone
     const phoneSnap = await tx.get(phoneRef);
+    const existingUser = await tx.get(userRef);
     if (phoneSnap.exists && phoneSnap.data()?.uid !== uid) {
       throw new Error('PHONE_ALREADY_CLAIMED');
     }
+    const referralFields = await registrationReferralFields(
+      tx, uid, referralCode, existingUser.data(), location.region, location.codes
+    );
+    // New members' referrals wait for a complete or verified profile
+    if (!existingUser.exists) {
+      referralFields.referralStatus = 'pending';
+    }
+    if (referralSignature != null && referralFields.referredBy) {
+      referralFields.referralSource = 'signed_link';
+    }
+    const reviewFields = applyScreening(tx, userRef, screening, !existingUser.exists);
     tx.set(phoneRef, { uid, claimedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
 
     // Upsert user doc
@@ -324,24 +469,13 @@ export const registerUserProfile = onCall(async (req) => {
       phoneE164: e164,
       aliasEmail: aliasEmail || null,
       fullName: fullName || null,
-      state: state || null,
-      district: district || null,
-      mandal: mandal || null,
-      village: village || null,
+      ...locationFields(location),
+      ...addressFields(location),
       role: 'member',
       active: true,
       createdAt: now,
       updatedAt: now,
-      referralChain: {
-        referralCode: referralCode || null,
-        referredBy: null
-      },
-      directReferrals: {
-        count: 0
-      },
-      security: {
-        pinHash: pinHashHex  // hash only
-      },
+      security,
       payment: simulatePayment ? {
         amount: 100,
         currency: 'INR',
@@ -352,25 +486,75 @@ export const registerUserProfile = onCall(async (req) => {
       } : {
         status: 'pending'
       },
-      membershipPaid: !!simulatePayment
+      membershipPaid: !!simulatePayment,
+      ...profileFields(fullName, location.region),
+      ...referralFields,
+      ...reviewFields
     };
-    tx.set(userRef, userData, { merge: true });
+    tx.set(userRef, toUserDocument({ ...userData, ...newUserFields(existingUser) }, { merge: true }), { merge: true });
   });
 
   logger.info(`User ${uid} registered with ${e164}`);
   return { ok: true };
 });
 
+// Lookups each caller may make before checkPhone refuses
+const CHECK_PHONE_LIMITS: Record<string, RateLimit> = {
+  ip: { limit: 30, windowMs: 60 * 60 * 1000 },
+  device: { limit: 10, windowMs: 60 * 60 * 1000 },
+};
+
 /**
  * checkPhone (callable)
- * Returns { exists: boolean, uid?: string }
+ *
+ * Tells the login screen whether a number is registered, without the
+ * owner's uid. Lookups are limited per IP and per deviceId so the member
+ * list cannot be walked; callers that send no deviceId share one device
+ * budget per IP, so leaving it out buys nothing. A caller over either limit
+ * gets the same resource-exhausted error, and its first overrun in a window
+ * is flagged. Invalid numbers answer like unregistered ones.
+ *
+ * Params: { e164, deviceId? }
+ * Returns: { exists: boolean }
  */
 export const checkPhone = onCall(async (req) => {
-  const e164 = req.data?.e164;
-  if (!e164) throw new Error('INVALID_ARGUMENT');
+  if (!req.data?.e164) throw new Error('INVALID_ARGUMENT');
+
+  const ip = clientIp(req);
+  const deviceId = typeof req.data.deviceId === 'string' && req.data.deviceId.trim()
+    ? req.data.deviceId.trim().slice(0, 128)
+    : null;
+  const callers = [
+    { scope: 'ip', key: ip },
+    { scope: 'device', key: deviceId ? `id:${deviceId}` : `ip:${ip || 'unknown'}` },
+  ].filter((caller): caller is { scope: string; key: string } => !!caller.key);
+
+  const limits = await Promise.all(callers.map(({ scope, key }) =>
+    consumeRateLimit(`check_phone_${scope}`, key, CHECK_PHONE_LIMITS[scope])
+  ));
+
+  const exceeded = limits
+    .map((result, i) => ({ ...result, scope: callers[i].scope }))
+    .filter((result) => !result.allowed);
+  if (exceeded.length > 0) {
+    await Promise.all(exceeded
+      .filter(({ count, scope }) => count === CHECK_PHONE_LIMITS[scope].limit + 1)
+      .map(({ scope, keyHash, windowStart }) => {
+        logger.warn(`checkPhone limit exceeded for ${scope} ${keyHash}`);
+        return db.collection('flagged_activities').doc(`phone_enumeration_${scope}_${keyHash}_${windowStart}`).set({
+          uid: req.auth?.uid || null,
+          type: 'phone_enumeration',
+          details: { scope, keyHash, limit: CHECK_PHONE_LIMITS[scope].limit, windowStart },
+          flaggedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+      }));
+    throw new HttpsError('resource-exhausted', 'Too many requests, try again later');
+  }
+
+  const e164 = normalizePhone(req.data.e164);
+  if (!e164) return { exists: false };
   const snap = await db.collection('phones').doc(e164).get();
-  if (!snap.exists) return { exists: false };
-  return { exists: true, uid: snap.data()?.uid };
+  return { exists: snap.exists };
 });
 
 /**
@@ -381,13 +565,22 @@ export const createUserRegistry = onCall(async (req) => {
   if (!uid) throw new Error('UNAUTHENTICATED');
 
   const {
-    e164, fullName, aliasEmail, pinHashHex,
+    e164: phoneInput, fullName, aliasEmail, pin, pinHashHex,
     state, district, mandal, village,
-    referralCode, simulatePayment = true,
+    referralCode, deviceFingerprint, simulatePayment = true,
     useCollection = 'user_registry'
   } = req.data || {};
 
-  if (!e164 || !pinHashHex) throw new Error('INVALID_ARGUMENT');
+  if (!phoneInput) throw new Error('INVALID_ARGUMENT');
+  const e164 = requirePhone(phoneInput);
+  const security = await registrationPinFields(pin, pinHashHex);
+  const location = resolveLocation({ state, district, mandal, village });
+  if (!location.ok) throw new Error(location.problem);
+
+  const referrer = referralCode ? await resolveReferrerByCode(referralCode) : null;
+  const screening = await screenRegistration(uid, {
+    fullName, region: location.region, deviceFingerprint, referrerUid: referrer?.uid ?? null
+  });
 
   const regCol = ['phones', 'registry', 'user_registry'].includes(useCollection) ? useCollection : 'user_registry';
   const regRef = db.collection(regCol).doc(e164);
@@ -396,9 +589,18 @@ export const createUserRegistry = onCall(async (req) => {
   await db.runTransaction(async (tx) => {
     // Claim phone/registry atomically
     const regSnap = await tx.get(regRef);
+    const existingUser = await tx.get(userRef);
     if (regSnap.exists && regSnap.data()?.uid !== uid) {
       throw new Error('PHONE_ALREADY_CLAIMED');
     }
+    const referralFields = await registrationReferralFields(
+      tx, uid, referralCode, existingUser.data(), location.region, location.codes
+    );
+    // New members' referrals wait for a complete or verified profile
+    if (!existingUser.exists) {
+      referralFields.referralStatus = 'pending';
+    }
+    const reviewFields = applyScreening(tx, userRef, screening, !existingUser.exists);
     tx.set(regRef, {
       uid,
       claimedAt: admin.firestore.FieldValue.serverTimestamp()
@@ -406,15 +608,13 @@ export const createUserRegistry = onCall(async (req) => {
 
     // Upsert user
     const now = admin.firestore.FieldValue.serverTimestamp();
-    tx.set(userRef, {
+    tx.set(userRef, toUserDocument({
       uid,
       phoneE164: e164,
       aliasEmail: aliasEmail ?? null,
       fullName: fullName ?? null,
-      state: state ?? null,
-      district: district ?? null,
-      mandal: mandal ?? null,
-      village: village ?? null,
+      ...locationFields(location),
+      ...addressFields(location),
       role: 'member',
       active: true,
       membershipPaid: !!simulatePayment,
@@ -426,15 +626,14 @@ export const createUserRegistry = onCall(async (req) => {
         status: 'success',
         paidAt: now
       } : { status: 'pending' },
-      referralChain: {
-        referralCode: referralCode ?? null,
-        referredBy: null
-      },
-      directReferrals: { count: 0 },
-      security: { pinHash: pinHashHex },
+      security,
       updatedAt: now,
-      createdAt: now
-    }, { merge: true });
+      createdAt: now,
+      ...profileFields(fullName, location.region),
+      ...referralFields,
+      ...reviewFields,
+      ...newUserFields(existingUser)
+    }, { merge: true }), { merge: true });
   });
 
   logger.info(`Registry created for ${e164} by uid=${uid} in ${useCollection}`);
@@ -464,7 +663,7 @@ export const ensureReferralCode = onCall(async (req) => {
     }
 
     const userData = userDoc.data()!;
-    const phoneE164 = userData.phoneE164 || userData.phone;
+    const phoneE164 = normalizeUser(uid, userData).phoneE164;
     
     if (!phoneE164) {
       throw new Error('PHONE_NOT_FOUND_IN_USER_PROFILE');
@@ -478,7 +677,7 @@ export const ensureReferralCode = onCall(async (req) => {
       const registryData = registryDoc.data()!;
       const existingCode = registryData.referralCode;
       
-      if (existingCode && isValidReferralCodeFormat(existingCode)) {
+      if (existingCode && (isValidReferralCodeFormat(existingCode) || isVanityCode(existingCode, userData))) {
         logger.info(`User ${uid} already has referral code in registry: ${existingCode}`);
         
         // Ensure users collection mirrors the same code
@@ -492,40 +691,22 @@ export const ensureReferralCode = onCall(async (req) => {
       }
     }
 
-    // Step 3: Generate new referral code (SINGLE GENERATION POINT)
-    let code: string = '';
-    let exists = true;
-    let attempts = 0;
-    const maxAttempts = 10;
-
-    while (exists && attempts < maxAttempts) {
-      code = "TAL" + Math.random().toString(36).substring(2, 8).toUpperCase();
-      const codeSnap = await db.collection('referralCodes').doc(code).get();
-      exists = codeSnap.exists;
-      attempts++;
-    }
-
-    if (attempts >= maxAttempts || !code) {
-      throw new Error('FAILED_TO_GENERATE_UNIQUE_CODE');
-    }
-
-    // Step 4: Atomic write to ALL collections (CONSISTENCY GUARANTEE)
-    await db.runTransaction(async (tx) => {
-      // Reserve the code
-      tx.set(db.collection('referralCodes').doc(code), {
-        uid,
-        createdAt: admin.firestore.FieldValue.serverTimestamp()
-      });
+    // Step 3: Generate, reserve and write the code atomically (CONSISTENCY GUARANTEE)
+    const code = await db.runTransaction(async (tx) => {
+      // Reserve the code (SINGLE GENERATION POINT)
+      const newCode = await reserveNewReferralCode(tx, uid);
 
       // Write to user_registry (PRIMARY SOURCE)
       tx.set(registryRef, { 
-        referralCode: code 
+        referralCode: newCode 
       }, { merge: true });
 
       // Mirror to users collection
       tx.set(userRef, { 
-        referralCode: code 
+        referralCode: newCode 
       }, { merge: true });
+
+      return newCode;
     });
 
     logger.info(`Generated and reserved referral code ${code} for user ${uid}`);
@@ -558,7 +739,7 @@ export const fixReferralCodeConsistency = onCall(async (req) => {
     }
 
     const userData = userDoc.data()!;
-    const phoneE164 = userData.phoneE164 || userData.phone;
+    const phoneE164 = normalizeUser(uid, userData).phoneE164;
     
     if (!phoneE164) {
       throw new Error('PHONE_NOT_FOUND');
@@ -582,7 +763,7 @@ export const fixReferralCodeConsistency = onCall(async (req) => {
     }
 
     // Use user_registry as source of truth
-    if (registryReferralCode && isValidReferralCodeFormat(registryReferralCode)) {
+    if (registryReferralCode && (isValidReferralCodeFormat(registryReferralCode) || isVanityCode(registryReferralCode, userData))) {
       // Registry has valid code, mirror to users
       await userRef.update({ referralCode: registryReferralCode });
       logger.info(`Fixed consistency for ${uid}: mirrored registry code ${registryReferralCode} to users`);
@@ -590,7 +771,7 @@ export const fixReferralCodeConsistency = onCall(async (req) => {
         fixed: true, 
         message: `Synced user referral code to ${registryReferralCode}` 
       };
-    } else if (userReferralCode && isValidReferralCodeFormat(userReferralCode)) {
+    } else if (userReferralCode && (isValidReferralCodeFormat(userReferralCode) || isVanityCode(userReferralCode, userData))) {
       // Users has valid code, update registry
       await registryRef.update({ referralCode: userReferralCode });
       logger.info(`Fixed consistency for ${uid}: updated registry with users code ${userReferralCode}`);
@@ -599,36 +780,18 @@ export const fixReferralCodeConsistency = onCall(async (req) => {
         message: `Updated registry referral code to ${userReferralCode}` 
       };
     } else {
-      // Neither has valid code, generate new one
-      let code: string;
-      let exists = true;
-      let attempts = 0;
-
-      while (exists && attempts < 10) {
-        code = "TAL" + Math.random().toString(36).substring(2, 8).toUpperCase();
-        const codeSnap = await db.collection('referralCodes').doc(code).get();
-        exists = codeSnap.exists;
-        attempts++;
-      }
-
-      if (attempts >= 10) {
-        throw new Error('FAILED_TO_GENERATE_UNIQUE_CODE');
-      }
-
-      // Atomic update to both collections
-      await db.runTransaction(async (tx) => {
-        tx.set(db.collection('referralCodes').doc(code!), {
-          uid,
-          createdAt: admin.firestore.FieldValue.serverTimestamp()
-        });
-        tx.update(registryRef, { referralCode: code! });
-        tx.update(userRef, { referralCode: code! });
+      // Neither has valid code, generate and write a new one atomically
+      const code = await db.runTransaction(async (tx) => {
+        const newCode = await reserveNewReferralCode(tx, uid);
+        tx.update(registryRef, { referralCode: newCode });
+        tx.update(userRef, { referralCode: newCode });
+        return newCode;
       });
 
-      logger.info(`Generated new referral code for ${uid}: ${code!}`);
+      logger.info(`Generated new referral code for ${uid}: ${code}`);
       return { 
         fixed: true, 
-        message: `Generated new referral code: ${code!}` 
+        message: `Generated new referral code: ${code}` 
       };
     }
 
@@ -639,131 +802,59 @@ export const fixReferralCodeConsistency = onCall(async (req) => {
 });
 
 /**
- * bulkFixReferralConsistency (callable)
- * 
- * ADMIN ONLY: Fixes referral code mismatches for ALL users.
- * Uses user_registry as source of truth.
- * 
- * Returns: { fixed: number, errors: number, total: number }
+ * Progress toward the next role above the user's current level
  */
-export const bulkFixReferralConsistency = onCall(async (req) => {
-  const uid = req.auth?.uid;
-  if (!uid) throw new Error('UNAUTHENTICATED');
-
-  // Check if user is admin (you can implement your own admin check)
-  const userDoc = await db.collection('users').doc(uid).get();
-  if (!userDoc.exists || userDoc.data()?.role !== 'admin') {
-    throw new Error('ADMIN_REQUIRED');
-  }
-
-  try {
-    logger.info('Starting bulk referral code consistency fix...');
-    
-    let fixedCount = 0;
-    let errorCount = 0;
-    let totalCount = 0;
-
-    // Get all users
-    const usersSnapshot = await db.collection('users').get();
-    totalCount = usersSnapshot.docs.length;
-
-    for (const userDoc of usersSnapshot.docs) {
-      try {
-        const userData = userDoc.data();
-        const userUid = userDoc.id;
-        const phoneE164 = userData.phoneE164 || userData.phone;
-        
-        if (!phoneE164) {
-          logger.warn(`User ${userUid} has no phone number, skipping`);
-          continue;
-        }
-
-        const registryDoc = await db.collection('user_registry').doc(phoneE164).get();
-        
-        if (!registryDoc.exists) {
-          logger.warn(`No registry found for ${phoneE164}, skipping`);
-          continue;
-        }
-
-        const registryData = registryDoc.data()!;
-        const registryCode = registryData.referralCode;
-        const userCode = userData.referralCode;
-
-        // Skip if already consistent
-        if (registryCode === userCode && registryCode) {
-          continue;
-        }
-
-        // Fix the mismatch
-        if (registryCode && isValidReferralCodeFormat(registryCode)) {
-          // Use registry as source of truth
-          await userDoc.ref.update({ referralCode: registryCode });
-          logger.info(`Fixed ${userUid}: synced to registry code ${registryCode}`);
-          fixedCount++;
-        } else if (userCode && isValidReferralCodeFormat(userCode)) {
-          // Use user code as fallback
-          await registryDoc.ref.update({ referralCode: userCode });
-          logger.info(`Fixed ${userUid}: updated registry with user code ${userCode}`);
-          fixedCount++;
-        } else {
-          // Generate new code for both
-          let newCode: string;
-          let exists = true;
-          let attempts = 0;
-
-          while (exists && attempts < 10) {
-            newCode = "TAL" + Math.random().toString(36).substring(2, 8).toUpperCase();
-            const codeSnap = await db.collection('referralCodes').doc(newCode).get();
-            exists = codeSnap.exists;
-            attempts++;
-          }
-
-          if (attempts < 10) {
-            await db.runTransaction(async (tx) => {
-              tx.set(db.collection('referralCodes').doc(newCode!), {
-                uid: userUid,
-                createdAt: admin.firestore.FieldValue.serverTimestamp()
-              });
-              tx.update(userDoc.ref, { referralCode: newCode! });
-              tx.update(registryDoc.ref, { referralCode: newCode! });
-            });
-            logger.info(`Generated new code for ${userUid}: ${newCode!}`);
-            fixedCount++;
-          } else {
-            logger.error(`Failed to generate unique code for ${userUid}`);
-            errorCount++;
-          }
-        }
-
-      } catch (error) {
-        logger.error(`Error fixing user ${userDoc.id}:`, error);
-        errorCount++;
-      }
-    }
-
-    logger.info(`Bulk fix completed: ${fixedCount} fixed, ${errorCount} errors, ${totalCount} total`);
-    
-    return {
-      fixed: fixedCount,
-      errors: errorCount,
-      total: totalCount,
-      message: `Fixed ${fixedCount} users, ${errorCount} errors out of ${totalCount} total`
-    };
+function nextRoleProgress(currentRoleLevel: number, directCount: number, teamCount: number) {
+  const nextRole = [...TALOWA_ROLE_THRESHOLDS]
+    .reverse()
+    .find((role) => role.level > currentRoleLevel);
+
+  if (!nextRole) return null;
+
+  const directProgress = nextRole.direct > 0 ? Math.min(directCount / nextRole.direct, 1) : 1;
+  const teamProgress = nextRole.team > 0 ? Math.min(teamCount / nextRole.team, 1) : 1;
+
+  return {
+    level: nextRole.level,
+    name: nextRole.name,
+    direct: { current: directCount, required: nextRole.direct },
+    team: { current: teamCount, required: nextRole.team },
+    progressPercent: Math.floor(Math.min(directProgress, teamProgress) * 100)
+  };
+}
 
-  } catch (error: any) {
-    logger.error('Bulk fix failed:', error);
-    throw new Error(`BULK_FIX_FAILED: ${error.message}`);
-  }
-});
+/**
+ * Joins in a window and growth relative to the team size before it
+ */
+function growthSince(points: RollupPoint[], days: number, directCount: number, teamCount: number) {
+  const joined = sumSince(points, daysAgo(days - 1));
+  const teamBefore = teamCount - joined.team;
+  const directBefore = directCount - joined.direct;
+
+  return {
+    direct: joined.direct,
+    team: joined.team,
+    directGrowthPercent: directBefore > 0 ? Math.round((joined.direct / directBefore) * 100) : null,
+    teamGrowthPercent: teamBefore > 0 ? Math.round((joined.team / teamBefore) * 100) : null
+  };
+}
 
 /**
  * getMyReferralStats (callable)
  * 
- * Returns the user's referral statistics and recent referrals.
+ * Returns the user's referral statistics, join history and recent referrals.
+ * History is read from pre-aggregated rollups (see referral-rollups.ts),
+ * so the cost does not grow with team size.
  * 
  * Returns: { 
  *   code: string, 
  *   directCount: number, 
+ *   teamCount: number,
+ *   series: { daily (30 days), weekly (12 weeks), monthly (12 months) }
+ *     of Array<{period, direct, team}>,
+ *   growth: { last30Days, last90Days }
+ *     of {direct, team, directGrowthPercent, teamGrowthPercent},
+ *   nextRole: { level, name, direct, team, progressPercent } | null,
  *   recentReferrals: Array<{uid, createdAt, fromCode}> 
  * }
  */
@@ -780,28 +871,51 @@ export const getMyReferralStats = onCall(async (req) => {
     }
 
     const userData = userDoc.data()!;
-    const referralData = userData.referral || {};
-
-    const code = referralData.code || null;
-    const directCount = referralData.directCount || 0;
 
-    // Get recent referrals (last 20)
-    const referralsQuery = db.collection('referrals').doc(uid)
-      .collection('direct')
-      .orderBy('createdAt', 'desc')
-      .limit(20);
-
-    const referralsSnapshot = await referralsQuery.get();
-    const recentReferrals = referralsSnapshot.docs.map(doc => ({
-      uid: doc.id,
-      ...doc.data()
+    const {
+      referralCode: code,
+      directReferrals: directCount,
+      teamReferrals: teamCount,
+    } = normalizeUser(uid, userData);
+
+    const [daily, weekly, monthly, recentSnapshot] = await Promise.all([
+      loadRollups(uid, 'daily', daysAgo(89)),
+      loadRollups(uid, 'weekly', daysAgo(7 * 11)),
+      loadRollups(uid, 'monthly', daysAgo(365)),
+      // Get recent direct referrals (last 20)
+      db.collection(REFERRAL_LEDGER_COLLECTION)
+        .where('ancestorId', '==', uid)
+        .where('type', '==', 'direct')
+        .where('status', '==', 'active')
+        .orderBy('createdAt', 'desc')
+        .limit(20)
+        .get()
+    ]);
+
+    const recentReferrals = recentSnapshot.docs.map(doc => ({
+      uid: doc.data().newUserId,
+      createdAt: doc.data().createdAt,
+      fromCode: doc.data().referralCode
     }));
 
+    const last30Start = dailyPeriod(daysAgo(29));
+
     logger.info(`Retrieved referral stats for user ${uid}: ${directCount} direct referrals`);
 
     return {
       code,
       directCount,
+      teamCount,
+      series: {
+        daily: daily.filter((point) => point.period >= last30Start),
+        weekly,
+        monthly: monthly.slice(-12)
+      },
+      growth: {
+        last30Days: growthSince(daily, 30, directCount, teamCount),
+        last90Days: growthSince(daily, 90, directCount, teamCount)
+      },
+      nextRole: nextRoleProgress(userData.currentRoleLevel || 1, directCount, teamCount),
       recentReferrals
     };
 
@@ -809,4 +923,4 @@ export const getMyReferralStats = onCall(async (req) => {
     logger.error(`Failed to get referral stats for user ${uid}:`, error);
     throw new Error(`REFERRAL_STATS_FAILED: ${error.message}`);
   }
-});
\ No newline at end of file
+});
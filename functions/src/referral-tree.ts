@@ -0,0 +1,169 @@
+/**
+ * Referral Tree Explorer
+ * Paginated, depth-limited view of a member's downline built on the
+ * materialized ancestor path (see referral-path.ts).
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { isAdminUser } from "./admin-guard";
+import { teamQuery } from "./referral-path";
+import { normalizeUser } from "./user-model";
+
+const db = admin.firestore();
+
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 3;
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+// Upper bound on nodes returned by one call, across all levels
+const MAX_NODES_PER_CALL = 500;
+
+export interface ReferralTreeNode {
+  uid: string;
+  fullName: string | null;
+  role: string | null;
+  village: string | null;
+  joinedAt: string | null;
+  subtreeSize: number;
+  children?: ReferralTreeNode[];
+  nextPageToken?: string | null;
+}
+
+/**
+ * Convert a user document into a tree node (without children).
+ * subtreeSize is the stored team counter, i.e. confirmed team members.
+ */
+function toTreeNode(doc: admin.firestore.DocumentSnapshot): ReferralTreeNode {
+  const user = normalizeUser(doc.id, doc.data() || {});
+  const createdAt = user.createdAt;
+
+  return {
+    uid: doc.id,
+    fullName: user.fullName,
+    role: user.role,
+    village: user.village,
+    joinedAt: createdAt instanceof admin.firestore.Timestamp ? createdAt.toDate().toISOString() : null,
+    subtreeSize: user.teamReferrals,
+  };
+}
+
+/**
+ * Load one page of a node's direct referrals.
+ * Children are the team members exactly one level deeper than the parent.
+ */
+async function loadChildren(
+  parentUid: string,
+  parentDepth: number,
+  pageSize: number,
+  pageToken?: string
+): Promise<{ docs: admin.firestore.QueryDocumentSnapshot[]; nextPageToken: string | null }> {
+  let query = teamQuery(parentUid)
+    .where('ancestorDepth', '==', parentDepth + 1)
+    .orderBy('createdAt', 'desc')
+    .limit(pageSize + 1);
+
+  if (pageToken) {
+    const cursor = await db.collection('users').doc(pageToken).get();
+    if (!cursor.exists) {
+      throw new HttpsError('invalid-argument', 'Invalid pageToken');
+    }
+    query = query.startAfter(cursor);
+  }
+
+  const snapshot = await query.get();
+  const docs = snapshot.docs.slice(0, pageSize);
+  const nextPageToken = snapshot.docs.length > pageSize ? docs[docs.length - 1].id : null;
+  return { docs, nextPageToken };
+}
+
+/**
+ * getReferralTree (callable)
+ *
+ * Returns a member's downline as a nested tree.
+ * Members may view their own subtree (including any node inside it);
+ * admins may view any user's subtree.
+ *
+ * Params: { rootUid?, depth? (1-3), pageSize? (1-100), pageToken? }
+ * pageToken pages through the root's direct referrals; deeper levels return
+ * their first page with a nextPageToken to expand by calling again with that
+ * node as rootUid.
+ *
+ * Returns: { root: ReferralTreeNode, truncated: boolean }
+ */
+export const getReferralTree = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) throw new HttpsError('unauthenticated', 'User must be authenticated');
+
+  const {
+    rootUid = uid,
+    depth = DEFAULT_DEPTH,
+    pageSize = DEFAULT_PAGE_SIZE,
+    pageToken
+  } = request.data || {};
+
+  if (typeof rootUid !== 'string' || !rootUid) {
+    throw new HttpsError('invalid-argument', 'rootUid must be a string');
+  }
+
+  const levels = Math.min(Math.max(Number(depth) || DEFAULT_DEPTH, 1), MAX_DEPTH);
+  const limit = Math.min(Math.max(Number(pageSize) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const rootDoc = await db.collection('users').doc(rootUid).get();
+  if (!rootDoc.exists) {
+    throw new HttpsError('not-found', 'User not found');
+  }
+
+  const rootData = rootDoc.data()!;
+  if (rootUid !== uid) {
+    const inCallerTeam = Array.isArray(rootData.ancestorIds) && rootData.ancestorIds.includes(uid);
+    if (!inCallerTeam && !(await isAdminUser(uid, request.auth?.token.role))) {
+      throw new HttpsError('permission-denied', 'You can only view your own team');
+    }
+  }
+
+  try {
+    let budget = MAX_NODES_PER_CALL;
+    let truncated = false;
+
+    const expand = async (
+      doc: admin.firestore.DocumentSnapshot,
+      remainingLevels: number,
+      token?: string
+    ): Promise<ReferralTreeNode> => {
+      // Pending members are not in the counter yet, so leaves are found by
+      // loading children rather than from subtreeSize
+      const node = toTreeNode(doc);
+      if (remainingLevels === 0) {
+        return node;
+      }
+
+      if (budget <= 0) {
+        truncated = true;
+        return node;
+      }
+
+      const parentDepth = typeof doc.data()?.ancestorDepth === 'number' ? doc.data()!.ancestorDepth : 0;
+      const page = await loadChildren(doc.id, parentDepth, Math.min(limit, budget), token);
+      budget -= page.docs.length;
+
+      node.children = [];
+      for (const child of page.docs) {
+        node.children.push(await expand(child, remainingLevels - 1));
+      }
+      node.nextPageToken = page.nextPageToken;
+      return node;
+    };
+
+    const root = await expand(rootDoc, levels, pageToken);
+
+    logger.info(`Referral tree for ${rootUid} requested by ${uid}: ${MAX_NODES_PER_CALL - budget} nodes`);
+    return { root, truncated };
+
+  } catch (error: any) {
+    if (error instanceof HttpsError) throw error;
+    logger.error(`Failed to load referral tree for ${rootUid}:`, error);
+    throw new HttpsError('internal', 'Failed to load referral tree');
+  }
+});
@@ -0,0 +1,199 @@
+/**
+ * Vanity Referral Codes
+ * Senior coordinators can swap their generated code for a memorable one
+ * (e.g. TALKONDAPUR) to print on banners.
+ *
+ * A request is checked for shape, blocked words and availability; an approved
+ * code is reserved in referralCodes in the same transaction that makes it the
+ * member's code. The previous code keeps its reservation, marked aliasOf the
+ * new one, and is listed in users.referralCodeAliases so members who sign up
+ * with printed material still land under the right person.
+ *
+ * Every request, approved or not, is recorded in vanity_code_requests.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { isAdminUser } from "./admin-guard";
+import {
+  isVanityReferralCodeFormat,
+  normalizeReferralCode,
+  REFERRAL_CODE_PREFIX,
+} from "./referral-code";
+import { normalizeUser } from "./user-model";
+
+const db = admin.firestore();
+
+const REQUESTS_COLLECTION = 'vanity_code_requests';
+
+// Mandal Coordinator and above
+const VANITY_MIN_ROLE_LEVEL = 5;
+const VANITY_COOLDOWN_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Words that may not appear anywhere in a vanity code: abuse, and names that
+ * would pass a member off as the organisation or the state.
+ */
+const BLOCKED_WORDS = [
+  // Impersonation
+  'ADMIN', 'TALOWA', 'OFFICIAL', 'SUPPORT', 'HELPDESK', 'GOVT', 'GOVERNMENT',
+  'POLICE', 'COLLECTOR', 'MINISTER', 'TAHSILDAR', 'COURT',
+  // Abuse (English)
+  'FUCK', 'SHIT', 'BITCH', 'BASTARD', 'DICK', 'CUNT', 'WHORE', 'SLUT', 'RAPE', 'NAZI',
+  // Abuse (transliterated Telugu / Hindi)
+  'LANJA', 'DENGU', 'MADARCHOD', 'BEHENCHOD', 'CHUTIYA', 'HARAMI',
+];
+
+// Digits commonly used to dodge a word filter
+const LOOKALIKE_LETTERS: Record<string, string> = {
+  '0': 'O', '1': 'I', '3': 'E', '4': 'A', '5': 'S', '7': 'T', '8': 'B',
+};
+
+export type VanityCodeRejection = 'INVALID_FORMAT' | 'BLOCKED_WORD' | 'UNAVAILABLE';
+
+/**
+ * Turn a requested code into its canonical TAL... form
+ */
+export function canonicalVanityCode(requested: string): string {
+  const code = normalizeReferralCode(requested);
+  return code.startsWith(REFERRAL_CODE_PREFIX) ? code : REFERRAL_CODE_PREFIX + code;
+}
+
+/**
+ * The blocked word a code body contains, if any. Checks the body as typed
+ * and with look-alike digits read as letters.
+ */
+export function findBlockedWord(code: string): string | null {
+  const body = code.slice(REFERRAL_CODE_PREFIX.length);
+  const unmasked = body.replace(/[0-9]/g, (digit) => LOOKALIKE_LETTERS[digit] || digit);
+  return BLOCKED_WORDS.find((word) => body.includes(word) || unmasked.includes(word)) || null;
+}
+
+function requestEntry(data: admin.firestore.DocumentData): admin.firestore.DocumentData {
+  return { ...data, requestedAt: admin.firestore.FieldValue.serverTimestamp() };
+}
+
+/**
+ * requestVanityReferralCode (callable)
+ *
+ * Params: { code }  e.g. "KONDAPUR" or "TALKONDAPUR"
+ * Returns: { approved: true, code, previousCode }
+ *        | { approved: false, code, reason: VanityCodeRejection }
+ */
+export const requestVanityReferralCode = onCall(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) throw new HttpsError('unauthenticated', 'User must be authenticated');
+
+  const requested = request.data?.code;
+  if (!requested || typeof requested !== 'string') {
+    throw new HttpsError('invalid-argument', 'code is required');
+  }
+
+  const userRef = db.collection('users').doc(uid);
+  const userDoc = await userRef.get();
+  if (!userDoc.exists) {
+    throw new HttpsError('not-found', 'User not found');
+  }
+
+  const userData = userDoc.data()!;
+  const isAdmin = await isAdminUser(uid, request.auth?.token.role);
+  if (!isAdmin && (userData.currentRoleLevel || 0) < VANITY_MIN_ROLE_LEVEL) {
+    throw new HttpsError('permission-denied', 'Vanity codes are available from Mandal Coordinator upward');
+  }
+
+  const lastChange = userData.vanityCodeAt?.toMillis?.();
+  if (!isAdmin && lastChange && Date.now() - lastChange < VANITY_COOLDOWN_DAYS * DAY_MS) {
+    throw new HttpsError('resource-exhausted', `Vanity codes can be changed once every ${VANITY_COOLDOWN_DAYS} days`);
+  }
+
+  const code = canonicalVanityCode(requested);
+
+  // Moderation checks that need no reads
+  let rejection: VanityCodeRejection | null = null;
+  let blockedWord: string | null = null;
+  if (!isVanityReferralCodeFormat(code)) {
+    rejection = 'INVALID_FORMAT';
+  } else {
+    blockedWord = findBlockedWord(code);
+    if (blockedWord) rejection = 'BLOCKED_WORD';
+  }
+
+  if (rejection) {
+    await db.collection(REQUESTS_COLLECTION).add(
+      requestEntry({ uid, code, status: 'rejected', reason: rejection, blockedWord })
+    );
+    logger.info(`Vanity code ${code} for ${uid} rejected: ${rejection}`);
+    return { approved: false, code, reason: rejection };
+  }
+
+  try {
+    const result = await db.runTransaction(async (tx) => {
+      const current = normalizeUser(uid, (await tx.get(userRef)).data()!);
+      const previousCode = current.referralCode;
+      if (previousCode === code) {
+        return { approved: true, previousCode };
+      }
+
+      const codeRef = db.collection('referralCodes').doc(code);
+      const previousRef = previousCode ? db.collection('referralCodes').doc(previousCode) : null;
+      const registryRef = current.phoneE164 ? db.collection('user_registry').doc(current.phoneE164) : null;
+
+      const codeSnap = await tx.get(codeRef);
+      const legacyOwner = await tx.get(db.collection('users').where('referralCode', '==', code).limit(1));
+      const previousSnap = previousRef ? await tx.get(previousRef) : null;
+      const registrySnap = registryRef ? await tx.get(registryRef) : null;
+
+      const requestRef = db.collection(REQUESTS_COLLECTION).doc();
+      if (codeSnap.exists || !legacyOwner.empty) {
+        tx.create(requestRef, requestEntry({ uid, code, status: 'rejected', reason: 'UNAVAILABLE' }));
+        return { approved: false, previousCode };
+      }
+
+      const now = admin.firestore.FieldValue.serverTimestamp();
+      tx.create(codeRef, { uid, kind: 'vanity', createdAt: now });
+
+      // Keep the previous code resolving to this member
+      if (previousRef) {
+        if (previousSnap?.exists) {
+          tx.update(previousRef, { aliasOf: code });
+        } else {
+          tx.set(previousRef, { uid, aliasOf: code, createdAt: now });
+        }
+      }
+
+      const userUpdate: admin.firestore.DocumentData = {
+        referralCode: code,
+        vanityCodeAt: now,
+        updatedAt: now,
+      };
+      if (previousCode) {
+        userUpdate.referralCodeAliases = admin.firestore.FieldValue.arrayUnion(previousCode);
+      }
+      if (current.referral?.code) {
+        userUpdate['referral.code'] = admin.firestore.FieldValue.delete();
+      }
+      tx.update(userRef, userUpdate);
+
+      if (registrySnap?.exists && registrySnap.data()?.uid === uid) {
+        tx.update(registryRef!, { referralCode: code });
+      }
+
+      tx.create(requestRef, requestEntry({ uid, code, status: 'approved', previousCode }));
+      return { approved: true, previousCode };
+    });
+
+    if (!result.approved) {
+      logger.info(`Vanity code ${code} for ${uid} rejected: UNAVAILABLE`);
+      return { approved: false, code, reason: 'UNAVAILABLE' as VanityCodeRejection };
+    }
+
+    logger.info(`Vanity code ${code} reserved for ${uid} (alias ${result.previousCode})`);
+    return { approved: true, code, previousCode: result.previousCode };
+
+  } catch (error) {
+    logger.error(`Failed to reserve vanity code ${code} for ${uid}:`, error);
+    throw new HttpsError('internal', 'Failed to reserve vanity code');
+  }
+});
@@ -0,0 +1,34 @@
+/**
+ * Regions
+ * The four administrative levels members are placed in, and how a user's
+ * region is read.
+ */
+
+import * as admin from "firebase-admin";
+
+export const REGION_LEVELS = ['state', 'district', 'mandal', 'village'] as const;
+export type RegionLevel = typeof REGION_LEVELS[number];
+
+export type Region = Partial<Record<RegionLevel, string>>;
+
+/**
+ * Region fields of a user (registration writes them top level, older
+ * profiles keep them under address)
+ */
+export function regionOf(userData: admin.firestore.DocumentData): Region {
+  const region: Region = {};
+  for (const level of REGION_LEVELS) {
+    const value = userData[level] ?? userData.address?.[level];
+    if (typeof value === 'string' && value.trim()) {
+      region[level] = value.trim();
+    }
+  }
+  return region;
+}
+
+/**
+ * Region names as typed by members differ in case and spacing
+ */
+export function sameRegionName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
@@ -0,0 +1,229 @@
+/**
+ * Registration Review
+ * Holds new registrations that look like duplicate or sock-puppet accounts.
+ *
+ * Signals, computed before the registration is written:
+ *   duplicate_name_village - another member with the same name in the same village
+ *   shared_device          - another member registered from the same device
+ *   referrer_device        - the referrer registered from this device
+ *   referral_burst         - the referrer gained many sign-ups within the hour
+ *
+ * users/{uid}.dedupeKeys = { nameVillage, device } (hashes, for later matches)
+ * users/{uid}.review = { status: 'held' | 'cleared' | 'rejected', signals, heldAt, reviewerUid, notes }
+ *
+ * A held account's referral is not confirmed, so its referrer gets no credit,
+ * until an admin clears it; a rejected one is never confirmed. Every held
+ * registration is flagged in flagged_activities.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import { requireAdmin } from "./admin-guard";
+import { logAdminAction } from "./admin-system";
+import { Region } from "./region";
+
+const db = admin.firestore();
+
+export type ReviewStatus = 'held' | 'cleared' | 'rejected';
+
+export type RegistrationSignal = 'duplicate_name_village' | 'shared_device' | 'referrer_device' | 'referral_burst';
+
+export interface RegistrationScreening {
+  dedupeKeys: { nameVillage: string | null; device: string | null };
+  signals: Array<{ type: RegistrationSignal; matchedUids?: string[]; count?: number }>;
+}
+
+// Fallbacks the app sends when it cannot fingerprint the device. Every such
+// device shares them, so they identify nobody; neither do very short values.
+const PLACEHOLDER_FINGERPRINTS = new Set(['web_device', 'unknown_device']);
+const MIN_FINGERPRINT_LENGTH = 16;
+
+const BURST_WINDOW_MS = 60 * 60 * 1000;
+const BURST_THRESHOLD = 10;
+const MAX_MATCHES = 5;
+
+function dedupeHash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 40);
+}
+
+/**
+ * Name tokens in a fixed order, so "Ravi Kumar" and "kumar ravi" match
+ */
+function nameKey(fullName: string): string {
+  return fullName
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+export function nameVillageKey(fullName: unknown, region: Region): string | null {
+  if (typeof fullName !== 'string' || !region.village) return null;
+  const name = nameKey(fullName);
+  if (!name) return null;
+  const place = [region.district, region.mandal, region.village].map((level) => (level || '').toLowerCase().trim());
+  return dedupeHash(`${name}|${place.join('|')}`);
+}
+
+export function deviceKey(deviceFingerprint: unknown): string | null {
+  if (typeof deviceFingerprint !== 'string') return null;
+  const fingerprint = deviceFingerprint.trim().slice(0, 256);
+  if (fingerprint.length < MIN_FINGERPRINT_LENGTH || PLACEHOLDER_FINGERPRINTS.has(fingerprint.toLowerCase())) {
+    return null;
+  }
+  return dedupeHash(`device:${fingerprint}`);
+}
+
+async function otherUsersWith(field: string, value: string, uid: string): Promise<string[]> {
+  const snapshot = await db.collection('users').where(field, '==', value).limit(MAX_MATCHES + 1).get();
+  return snapshot.docs.map((doc) => doc.id).filter((id) => id !== uid).slice(0, MAX_MATCHES);
+}
+
+/**
+ * Compute the duplicate signals for a registration
+ */
+export async function screenRegistration(
+  uid: string,
+  { fullName, region, deviceFingerprint, referrerUid }: {
+    fullName: unknown;
+    region: Region;
+    deviceFingerprint: unknown;
+    referrerUid: string | null;
+  }
+): Promise<RegistrationScreening> {
+  const dedupeKeys = {
+    nameVillage: nameVillageKey(fullName, region),
+    device: deviceKey(deviceFingerprint),
+  };
+  const signals: RegistrationScreening['signals'] = [];
+
+  const none: string[] = [];
+  const [nameMatches, deviceMatches, recentReferrals] = await Promise.all([
+    dedupeKeys.nameVillage ? otherUsersWith('dedupeKeys.nameVillage', dedupeKeys.nameVillage, uid) : none,
+    dedupeKeys.device ? otherUsersWith('dedupeKeys.device', dedupeKeys.device, uid) : none,
+    referrerUid
+      ? db.collection('users')
+        .where('referrerUid', '==', referrerUid)
+        .where('createdAt', '>=', admin.firestore.Timestamp.fromMillis(Date.now() - BURST_WINDOW_MS))
+        .count()
+        .get()
+        .then((snap) => snap.data().count)
+      : 0,
+  ]);
+
+  if (nameMatches.length) {
+    signals.push({ type: 'duplicate_name_village', matchedUids: nameMatches });
+  }
+  if (referrerUid && deviceMatches.includes(referrerUid)) {
+    signals.push({ type: 'referrer_device', matchedUids: [referrerUid] });
+  }
+  const others = deviceMatches.filter((id) => id !== referrerUid);
+  if (others.length) {
+    signals.push({ type: 'shared_device', matchedUids: others });
+  }
+  if (recentReferrals >= BURST_THRESHOLD) {
+    signals.push({ type: 'referral_burst', count: recentReferrals });
+  }
+
+  return { dedupeKeys, signals };
+}
+
+/**
+ * Write the screening result as part of a registration transaction.
+ * Only new accounts are held; re-registrations just refresh the keys.
+ */
+export function applyScreening(
+  tx: admin.firestore.Transaction,
+  userRef: admin.firestore.DocumentReference,
+  screening: RegistrationScreening,
+  isNewUser: boolean
+): admin.firestore.DocumentData {
+  const fields: admin.firestore.DocumentData = { dedupeKeys: screening.dedupeKeys };
+  if (!isNewUser || screening.signals.length === 0) return fields;
+
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  fields.review = { status: 'held', signals: screening.signals, heldAt: now };
+
+  tx.set(db.collection('flagged_activities').doc(`suspected_duplicate_${userRef.id}`), {
+    uid: userRef.id,
+    type: 'suspected_duplicate_account',
+    details: { signals: screening.signals },
+    flaggedAt: now
+  });
+  logger.warn(`Holding registration ${userRef.id} for review: ${screening.signals.map((s) => s.type).join(', ')}`);
+
+  return fields;
+}
+
+export function reviewStatusOf(userData: admin.firestore.DocumentData): ReviewStatus | null {
+  const status = userData.review?.status;
+  return status === 'held' || status === 'cleared' || status === 'rejected' ? status : null;
+}
+
+/**
+ * Whether a registration review currently stops the account's referral
+ * from being confirmed
+ */
+export function isReferralWithheld(userData: admin.firestore.DocumentData): boolean {
+  const status = reviewStatusOf(userData);
+  return status === 'held' || status === 'rejected';
+}
+
+/**
+ * reviewHeldRegistration (callable)
+ *
+ * ADMIN ONLY: Clears or rejects a held registration. Clearing lets the
+ * referral be confirmed as usual (the profile trigger picks it up).
+ *
+ * Params: { uid, decision: 'cleared' | 'rejected', notes? }
+ * Returns: { uid, status }
+ */
+export const reviewHeldRegistration = onCall(async (request) => {
+  const adminUid = await requireAdmin(request);
+
+  const { uid, decision, notes } = request.data || {};
+  if (typeof uid !== 'string' || !uid) {
+    throw new HttpsError('invalid-argument', 'uid is required');
+  }
+  if (decision !== 'cleared' && decision !== 'rejected') {
+    throw new HttpsError('invalid-argument', "decision must be 'cleared' or 'rejected'");
+  }
+
+  const userRef = db.collection('users').doc(uid);
+  await db.runTransaction(async (tx) => {
+    const userSnap = await tx.get(userRef);
+    if (!userSnap.exists) throw new HttpsError('not-found', 'User not found');
+    if (reviewStatusOf(userSnap.data()!) !== 'held') {
+      throw new HttpsError('failed-precondition', 'Registration is not held for review');
+    }
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    tx.update(userRef, {
+      'review.status': decision,
+      'review.reviewerUid': adminUid,
+      'review.notes': typeof notes === 'string' ? notes.slice(0, 1000) : null,
+      'review.reviewedAt': now,
+    });
+    tx.set(db.collection('flagged_activities').doc(`suspected_duplicate_${uid}`), {
+      status: decision === 'cleared' ? 'resolved' : 'confirmed',
+      reviewedBy: adminUid,
+      reviewedAt: now
+    }, { merge: true });
+  });
+
+  await logAdminAction({
+    adminUid,
+    action: 'review_held_registration',
+    targetUid: uid,
+    details: { decision },
+    timestamp: admin.firestore.FieldValue.serverTimestamp()
+  });
+
+  logger.info(`Held registration ${uid} ${decision} by ${adminUid}`);
+  return { uid, status: decision };
+});
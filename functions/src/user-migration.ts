@@ -0,0 +1,204 @@
+/**
+ * User Schema Migration
+ * Rewrites users/{uid} documents into the canonical shape of user-model.ts.
+ *
+ * Migrations are listed by the schema version they produce and applied in
+ * order to every document below USER_SCHEMA_VERSION. Each call handles one
+ * page of users, so the migration is run by calling it with the returned
+ * pageToken until it comes back null.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { requireAdmin } from "./admin-guard";
+import { logAdminAction } from "./admin-system";
+import { resolveReferrerByCode } from "./referral-path";
+import { legacyReferralCode, normalizeUser, USER_SCHEMA_VERSION } from "./user-model";
+
+const db = admin.firestore();
+
+const DEFAULT_PAGE_SIZE = 300;
+const MAX_PAGE_SIZE = 450;
+
+/**
+ * Lookups a page of migrations needs, done before any document is migrated
+ */
+export interface MigrationContext {
+  // Owner uid of each legacy referral code on the page, null when unknown
+  referrerUids: Map<string, string | null>;
+}
+
+interface UserMigration {
+  version: number;
+  description: string;
+  // Update for one document, reading from the document as stored. An
+  // incomplete step is written but leaves the document at the older version,
+  // so a later run tries again.
+  migrate(
+    uid: string,
+    data: admin.firestore.DocumentData,
+    context: MigrationContext
+  ): { update: admin.firestore.DocumentData; complete: boolean };
+}
+
+const USER_MIGRATIONS: UserMigration[] = [
+  {
+    version: 2,
+    description: 'Unify referral code, referrer, counter and phone fields',
+    migrate(uid, data, context) {
+      const user = normalizeUser(uid, data);
+      const del = admin.firestore.FieldValue.delete();
+      const update: admin.firestore.DocumentData = {};
+
+      if (user.referralCode && data.referralCode !== user.referralCode) {
+        update.referralCode = user.referralCode;
+      }
+      if (data.referral && typeof data.referral === 'object' && 'code' in data.referral) {
+        update['referral.code'] = del;
+      }
+
+      // Registrations before referredBy kept the entered code only in referralChain
+      if (user.referredBy && data.referredBy !== user.referredBy) {
+        update.referredBy = user.referredBy;
+      }
+      const referrerUid = user.referrerUid ?? (user.referredBy ? context.referrerUids.get(user.referredBy) ?? null : null);
+      if (referrerUid && data.referrerUid !== referrerUid) {
+        update.referrerUid = referrerUid;
+      }
+
+      // The server's { referralCode, referredBy } map; the app's array form is
+      // left alone. Kept while its code has not been resolved to a referrer.
+      const referrerPending = !!legacyReferralCode(data) && !referrerUid;
+      if (data.referralChain && typeof data.referralChain === 'object' && !Array.isArray(data.referralChain) && !referrerPending) {
+        update.referralChain = del;
+      }
+
+      if (typeof data.directReferrals !== 'number') {
+        update.directReferrals = user.directReferrals;
+      }
+      if (typeof data.teamReferrals !== 'number') {
+        update.teamReferrals = user.teamReferrals;
+        update.teamSize = user.teamReferrals;
+      }
+
+      if (user.phoneE164) {
+        if (data.phoneE164 !== user.phoneE164) update.phoneE164 = user.phoneE164;
+        if (data.phoneNumber !== user.phoneE164) update.phoneNumber = user.phoneE164;
+      }
+      if ('phone' in data) {
+        update.phone = del;
+      }
+
+      return { update, complete: !referrerPending };
+    },
+  },
+];
+
+/**
+ * The update that brings a document from its stored version to the current one
+ */
+export function userMigrationUpdate(
+  uid: string,
+  data: admin.firestore.DocumentData,
+  context: MigrationContext
+): admin.firestore.DocumentData | null {
+  const storedVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+  if (storedVersion >= USER_SCHEMA_VERSION) return null;
+
+  let current = { ...data };
+  let version = storedVersion;
+  const update: admin.firestore.DocumentData = {};
+  for (const migration of USER_MIGRATIONS) {
+    if (migration.version <= storedVersion) continue;
+    const step = migration.migrate(uid, current, context);
+    Object.assign(update, step.update);
+    current = { ...current, ...step.update };
+    if (!step.complete) break;
+    version = migration.version;
+  }
+
+  if (version > storedVersion) update.schemaVersion = version;
+  return Object.keys(update).length ? update : null;
+}
+
+/**
+ * Resolve the legacy referral codes of documents that have no referrer uid
+ */
+export async function loadMigrationContext(docs: admin.firestore.QueryDocumentSnapshot[]): Promise<MigrationContext> {
+  const referrerUids = new Map<string, string | null>();
+  for (const doc of docs) {
+    const user = normalizeUser(doc.id, doc.data());
+    if (user.schemaVersion >= USER_SCHEMA_VERSION) continue;
+    if (!user.referredBy || user.referrerUid || referrerUids.has(user.referredBy)) continue;
+    const referrer = await resolveReferrerByCode(user.referredBy);
+    referrerUids.set(user.referredBy, referrer?.uid ?? null);
+  }
+  return { referrerUids };
+}
+
+/**
+ * migrateUserSchema (callable)
+ *
+ * ADMIN ONLY: Migrates one page of users to the current schema version.
+ * Defaults to a dry run; pass { dryRun: false } to write the changes.
+ *
+ * Params: { dryRun?, pageSize?, pageToken? }
+ * Returns: { dryRun, schemaVersion, scanned, migrated, sample, unresolvedReferralCodes, nextPageToken }
+ *   unresolvedReferralCodes: legacy codes with no owner; those members keep
+ *   their referralChain map until the code is fixed and the page run again
+ */
+export const migrateUserSchema = onCall(async (request) => {
+  const adminUid = await requireAdmin(request);
+
+  const { pageSize = DEFAULT_PAGE_SIZE, pageToken } = request.data || {};
+  const dryRun = request.data?.dryRun !== false;
+  const limit = Math.min(Math.max(Number(pageSize) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  try {
+    let query = db.collection('users').orderBy(admin.firestore.FieldPath.documentId()).limit(limit);
+    if (pageToken) {
+      if (typeof pageToken !== 'string') {
+        throw new HttpsError('invalid-argument', 'pageToken must be a string');
+      }
+      query = query.startAfter(pageToken);
+    }
+    const snapshot = await query.get();
+
+    const context = await loadMigrationContext(snapshot.docs);
+    const batch = db.batch();
+    const sample: Array<{ uid: string; fields: string[] }> = [];
+    let migrated = 0;
+
+    for (const doc of snapshot.docs) {
+      const update = userMigrationUpdate(doc.id, doc.data(), context);
+      if (!update) continue;
+
+      migrated++;
+      if (sample.length < 20) sample.push({ uid: doc.id, fields: Object.keys(update) });
+      if (!dryRun) batch.update(doc.ref, update);
+    }
+
+    if (!dryRun && migrated > 0) {
+      await batch.commit();
+      await logAdminAction({
+        adminUid,
+        action: 'migrate_user_schema',
+        details: { schemaVersion: USER_SCHEMA_VERSION, migrated, from: pageToken || null },
+        timestamp: admin.firestore.FieldValue.serverTimestamp()
+      });
+    }
+
+    const last = snapshot.docs[snapshot.docs.length - 1];
+    const nextPageToken = snapshot.docs.length === limit ? last.id : null;
+
+    logger.info(`User schema migration page from ${pageToken || 'start'}: ${migrated} of ${snapshot.size} migrated (dryRun=${dryRun})`);
+    const unresolvedReferralCodes = [...context.referrerUids].filter(([, owner]) => !owner).map(([code]) => code);
+    return { dryRun, schemaVersion: USER_SCHEMA_VERSION, scanned: snapshot.size, migrated, sample, unresolvedReferralCodes, nextPageToken };
+
+  } catch (error) {
+    if (error instanceof HttpsError) throw error;
+    logger.error('User schema migration failed:', error);
+    throw new HttpsError('internal', 'User schema migration failed');
+  }
+});
@@ -0,0 +1,159 @@
+/**
+ * Canonical User Model
+ * One typed shape for users/{uid}, shared by every function.
+ *
+ * Older documents store the same facts under different fields:
+ *   referralCode        <- referral.code
+ *   referredBy          <- referralChain.referralCode (code entered at registration)
+ *   referrerUid         <- referralChain.referredBy (uid of the referrer)
+ *   directReferrals     <- { count } objects
+ *   phoneE164           <- phone, phoneNumber
+ *
+ * normalizeUser / userConverter read either shape, so code can rely on the
+ * canonical fields before the migration (user-migration.ts) has run.
+ * schemaVersion records which shape a stored document is in.
+ *
+ * phoneNumber and teamSize are still written as mirrors because app versions
+ * in the field read them.
+ */
+
+import * as admin from "firebase-admin";
+import { normalizeReferralCode } from "./referral-code";
+
+const db = admin.firestore();
+
+export const USER_SCHEMA_VERSION = 2;
+
+export interface User extends admin.firestore.DocumentData {
+  uid: string;
+  schemaVersion: number;
+
+  fullName: string | null;
+  phoneE164: string | null;
+  state: string | null;
+  district: string | null;
+  mandal: string | null;
+  village: string | null;
+
+  role: string | null;
+  currentRoleLevel: number;
+
+  // The member's own code and earlier codes that still resolve to them
+  referralCode: string | null;
+  referralCodeAliases: string[];
+  // Code the member was placed under, and the uid it resolved to
+  referredBy: string | null;
+  referrerUid: string | null;
+  // Materialized path, nearest first; absent until the member is placed
+  ancestorIds?: string[];
+  ancestorDepth?: number;
+
+  directReferrals: number;
+  teamReferrals: number;
+}
+
+/**
+ * Read a counter that may be stored as a number or as { count }
+ */
+export function readCount(value: any): number {
+  if (typeof value === 'number') return value;
+  if (value && typeof value.count === 'number') return value.count;
+  return 0;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+/**
+ * The server's { referralCode, referredBy } referralChain, or null. The app
+ * also writes referralChain as an array of ancestor uids, which is not ours
+ * to interpret.
+ */
+function legacyReferralChain(referralChain: unknown): admin.firestore.DocumentData | null {
+  if (!referralChain || Array.isArray(referralChain) || typeof referralChain !== 'object') return null;
+  return referralChain as admin.firestore.DocumentData;
+}
+
+/**
+ * Code a member entered at registration before referredBy was written
+ */
+export function legacyReferralCode(data: admin.firestore.DocumentData): string | null {
+  const code = stringOrNull(legacyReferralChain(data.referralChain)?.referralCode);
+  return code && normalizeReferralCode(code);
+}
+
+/**
+ * Canonical view of a user document in any stored shape
+ */
+export function normalizeUser(uid: string, data: admin.firestore.DocumentData): User {
+  const nearestAncestor = Array.isArray(data.ancestorIds) ? stringOrNull(data.ancestorIds[0]) : null;
+
+  return {
+    ...data,
+    uid,
+    schemaVersion: typeof data.schemaVersion === 'number' ? data.schemaVersion : 1,
+    fullName: stringOrNull(data.fullName),
+    phoneE164: stringOrNull(data.phoneE164) ?? stringOrNull(data.phoneNumber) ?? stringOrNull(data.phone),
+    state: stringOrNull(data.state ?? data.address?.state),
+    district: stringOrNull(data.district ?? data.address?.district),
+    mandal: stringOrNull(data.mandal ?? data.address?.mandal),
+    village: stringOrNull(data.village ?? data.address?.village),
+    role: stringOrNull(data.role),
+    currentRoleLevel: typeof data.currentRoleLevel === 'number' ? data.currentRoleLevel : 1,
+    referralCode: stringOrNull(data.referralCode) ?? stringOrNull(data.referral?.code),
+    referralCodeAliases: Array.isArray(data.referralCodeAliases) ? data.referralCodeAliases : [],
+    referredBy: stringOrNull(data.referredBy) ?? legacyReferralCode(data),
+    referrerUid: stringOrNull(data.referrerUid) ?? stringOrNull(legacyReferralChain(data.referralChain)?.referredBy) ?? nearestAncestor,
+    directReferrals: readCount(data.directReferrals),
+    teamReferrals: readCount(data.teamReferrals) || readCount(data.teamSize),
+  };
+}
+
+/**
+ * Fields to write for a user, keeping the compatibility mirrors in step.
+ * Full writes are stamped with the current schema version; merges are not,
+ * since the rest of the stored document may still be in an older shape.
+ */
+export function toUserDocument(
+  user: admin.firestore.PartialWithFieldValue<User>,
+  options?: admin.firestore.SetOptions
+): admin.firestore.DocumentData {
+  const { uid, ...fields } = user as admin.firestore.DocumentData;
+  const data: admin.firestore.DocumentData = { ...fields };
+  if (!options) data.schemaVersion = USER_SCHEMA_VERSION;
+
+  if (uid !== undefined) data.uid = uid;
+  if (fields.phoneE164 !== undefined) data.phoneNumber = fields.phoneE164;
+  if (fields.teamReferrals !== undefined) data.teamSize = fields.teamReferrals;
+
+  return data;
+}
+
+export const userConverter: admin.firestore.FirestoreDataConverter<User> = {
+  toFirestore(
+    user: admin.firestore.PartialWithFieldValue<User>,
+    options?: admin.firestore.SetOptions
+  ): admin.firestore.DocumentData {
+    return toUserDocument(user, options);
+  },
+  fromFirestore(snapshot: admin.firestore.QueryDocumentSnapshot): User {
+    return normalizeUser(snapshot.id, snapshot.data());
+  },
+};
+
+export function usersCollection(): admin.firestore.CollectionReference<User> {
+  return db.collection('users').withConverter(userConverter);
+}
+
+export function userRef(uid: string): admin.firestore.DocumentReference<User> {
+  return usersCollection().doc(uid);
+}
+
+/**
+ * Read a user in canonical form, or null if the document does not exist
+ */
+export async function getUser(uid: string, tx?: admin.firestore.Transaction): Promise<User | null> {
+  const snap = tx ? await tx.get(userRef(uid)) : await userRef(uid).get();
+  return snap.exists ? snap.data()! : null;
+}
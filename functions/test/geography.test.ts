@@ -0,0 +1,104 @@
+import { GEOGRAPHY_VERSION } from "../src/geography-data";
+import { freeTextName, resolveLocation } from "../src/geography";
+import { userLocationUpdate } from "../src/geography-migration";
+
+describe('resolveLocation', () => {
+  it('maps names onto canonical names and codes regardless of case and suffixes', () => {
+    expect(resolveLocation({
+      state: 'telangana',
+      district: 'hyderabad district',
+      mandal: 'AMEERPET Mandal',
+      village: '  kundan   bagh ',
+    })).toEqual({
+      ok: true,
+      region: { state: 'Telangana', district: 'Hyderabad', mandal: 'Ameerpet', village: 'Kundan Bagh' },
+      codes: { state: 'TG', district: 'TG-HYD', mandal: 'TG-HYD-AMR', village: null },
+    });
+  });
+
+  it('accepts codes, Telugu names and aliases, and infers the state', () => {
+    const byCode = resolveLocation({ district: 'TG-NLG' });
+    const byTelugu = resolveLocation({ district: 'నల్గొండ' });
+    const byAlias = resolveLocation({ district: 'Vizag' });
+    expect(byCode).toMatchObject({ ok: true, region: { state: 'Telangana', district: 'Nalgonda' } });
+    expect(byTelugu).toEqual(byCode);
+    expect(byAlias).toMatchObject({ ok: true, codes: { state: 'AP', district: 'AP-VSP' } });
+  });
+
+  it('normalizes names below the bundled levels without a code', () => {
+    expect(resolveLocation({ district: 'Nalgonda', mandal: 'miryalaguda mandal' })).toMatchObject({
+      ok: true,
+      region: { district: 'Nalgonda', mandal: 'Miryalaguda' },
+      codes: { district: 'TG-NLG', mandal: null },
+    });
+  });
+
+  it('reports the first level the reference data does not list', () => {
+    expect(resolveLocation({ state: 'Karnataka' })).toEqual({ ok: false, problem: 'UNKNOWN_STATE' });
+    expect(resolveLocation({ district: 'Gotham' })).toEqual({ ok: false, problem: 'UNKNOWN_DISTRICT' });
+    expect(resolveLocation({ state: 'Andhra Pradesh', district: 'Hyderabad' })).toEqual({ ok: false, problem: 'UNKNOWN_DISTRICT' });
+    expect(resolveLocation({ district: 'Hyderabad', mandal: 'Miryalaguda' })).toEqual({ ok: false, problem: 'UNKNOWN_MANDAL' });
+  });
+
+  it('ignores values that are not text', () => {
+    expect(resolveLocation({ state: 42, district: { name: 'Hyderabad' } })).toEqual({
+      ok: true,
+      region: {},
+      codes: { state: null, district: null, mandal: null, village: null },
+    });
+  });
+});
+
+describe('freeTextName', () => {
+  it('capitalizes each word of the normalized name', () => {
+    expect(freeTextName('  kondapur mandal')).toBe('Kondapur');
+    expect(freeTextName('SRI-RAM nagar')).toBe('Sri Ram Nagar');
+  });
+});
+
+describe('userLocationUpdate', () => {
+  const canonical = {
+    state: 'Telangana',
+    district: 'Nalgonda',
+    mandal: 'Miryalaguda',
+    village: 'Kundanbagh',
+    locationCodes: { state: 'TG', district: 'TG-NLG', mandal: null, village: null },
+    geographyVersion: GEOGRAPHY_VERSION,
+  };
+
+  it('leaves users with canonical fields unchanged', () => {
+    expect(userLocationUpdate(canonical)).toEqual({ update: null });
+  });
+
+  it('rewrites free-text names, the address map and the codes', () => {
+    expect(userLocationUpdate({
+      address: { state: 'TS', district: 'nalgonda', mandal: 'miryalaguda', village: 'kundanbagh', pincode: '508207' },
+    })).toEqual({
+      update: {
+        state: 'Telangana',
+        district: 'Nalgonda',
+        mandal: 'Miryalaguda',
+        village: 'Kundanbagh',
+        'address.state': 'Telangana',
+        'address.district': 'Nalgonda',
+        'address.mandal': 'Miryalaguda',
+        'address.village': 'Kundanbagh',
+        locationCodes: canonical.locationCodes,
+        geographyVersion: GEOGRAPHY_VERSION,
+      },
+    });
+  });
+
+  it('refreshes codes resolved against an older version', () => {
+    expect(userLocationUpdate({ ...canonical, geographyVersion: '2023.1' })).toEqual({
+      update: { locationCodes: canonical.locationCodes, geographyVersion: GEOGRAPHY_VERSION },
+    });
+  });
+
+  it('reports locations it cannot resolve', () => {
+    expect(userLocationUpdate({ state: 'Telangana', district: 'Gotham' })).toEqual({
+      problem: 'UNKNOWN_DISTRICT',
+      region: { state: 'Telangana', district: 'Gotham' },
+    });
+  });
+});
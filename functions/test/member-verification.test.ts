@@ -0,0 +1,67 @@
+import { coversMember } from "../src/member-verification";
+
+const TG_CODES = { state: 'TG', district: 'TG-HYD', mandal: 'TG-HYD-AMR', village: null };
+
+const member = {
+  state: 'Telangana',
+  district: 'Hyderabad',
+  mandal: 'Ameerpet',
+  village: 'Kundanbagh',
+  locationCodes: TG_CODES,
+};
+
+describe('coversMember', () => {
+  it('lets a mandal coordinator verify members of their own mandal only', () => {
+    const coordinator = { ...member, currentRoleLevel: 5 };
+    expect(coversMember(coordinator, member)).toBe(true);
+    expect(coversMember(coordinator, {
+      ...member,
+      mandal: 'Amberpet',
+      locationCodes: { ...TG_CODES, mandal: 'TG-HYD-AMB' },
+    })).toBe(false);
+  });
+
+  it('lets district and state coordinators verify anyone in their area', () => {
+    const elsewhere = { ...member, mandal: 'Amberpet', locationCodes: { ...TG_CODES, mandal: 'TG-HYD-AMB' } };
+    expect(coversMember({ ...member, currentRoleLevel: 6 }, elsewhere)).toBe(true);
+    expect(coversMember({ ...member, currentRoleLevel: 8 }, {
+      ...elsewhere,
+      district: 'Ranga Reddy',
+      locationCodes: { ...TG_CODES, district: 'TG-RRD', mandal: null },
+    })).toBe(true);
+    expect(coversMember({ ...member, currentRoleLevel: 6 }, {
+      ...elsewhere,
+      district: 'Ranga Reddy',
+      locationCodes: { ...TG_CODES, district: 'TG-RRD', mandal: null },
+    })).toBe(false);
+  });
+
+  it('gives members and lower coordinators no jurisdiction', () => {
+    expect(coversMember({ ...member, currentRoleLevel: 1 }, member)).toBe(false);
+    expect(coversMember({ ...member, currentRoleLevel: 4 }, member)).toBe(false);
+    expect(coversMember({ ...member, currentRoleLevel: '9' }, member)).toBe(false);
+    expect(coversMember(member, member)).toBe(false);
+  });
+
+  it('compares canonical names where either side has no code', () => {
+    const coordinator = { state: 'Telangana', district: 'Nalgonda', mandal: 'Miryalaguda', currentRoleLevel: 5 };
+    expect(coversMember(coordinator, { state: 'telangana', district: 'Nalgonda ', mandal: 'MIRYALAGUDA' })).toBe(true);
+    expect(coversMember(coordinator, { state: 'Telangana', district: 'Nalgonda', mandal: 'Nakrekal' })).toBe(false);
+    expect(coversMember(coordinator, { state: 'Telangana', district: 'Nalgonda' })).toBe(false);
+  });
+
+  it("ignores the coordinator's own address map", () => {
+    const coordinator = {
+      currentRoleLevel: 5,
+      address: { state: 'Telangana', district: 'Hyderabad', mandal: 'Ameerpet' },
+    };
+    expect(coversMember(coordinator, member)).toBe(false);
+  });
+
+  it("reads the member's region from the address map of older profiles", () => {
+    const coordinator = { state: 'Telangana', district: 'Nalgonda', mandal: 'Miryalaguda', currentRoleLevel: 5 };
+    expect(coversMember(coordinator, {
+      address: { state: 'Telangana', district: 'Nalgonda', mandal: 'Miryalaguda' },
+    })).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { OtpDelivery, otpDelivery, setOtpDelivery } from "../src/otp-delivery";
+
+class RecordingDelivery implements OtpDelivery {
+  readonly name = 'recording';
+  readonly sent: Array<{ e164: string; message: string }> = [];
+
+  async send(e164: string, message: string): Promise<void> {
+    this.sent.push({ e164, message });
+  }
+}
+
+describe('otpDelivery', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+    setOtpDelivery(null);
+  });
+
+  it('uses a delivery set with setOtpDelivery until it is cleared', async () => {
+    const recording = new RecordingDelivery();
+    setOtpDelivery(recording);
+    await otpDelivery().send('+919876543210', 'code 123456');
+    expect(recording.sent).toEqual([{ e164: '+919876543210', message: 'code 123456' }]);
+
+    process.env.OTP_DELIVERY = 'stub';
+    process.env.FUNCTIONS_EMULATOR = 'true';
+    setOtpDelivery(null);
+    expect(otpDelivery().name).toBe('stub');
+  });
+
+  it('offers the stub provider in the emulator only', async () => {
+    process.env.OTP_DELIVERY = 'stub';
+    delete process.env.FUNCTIONS_EMULATOR;
+    expect(() => otpDelivery()).toThrow('only available in the emulator');
+
+    process.env.FUNCTIONS_EMULATOR = 'true';
+    await expect(otpDelivery().send('+919876543210', 'code 123456')).resolves.toBeUndefined();
+  });
+
+  it('needs a gateway URL for SMS delivery', () => {
+    process.env.OTP_DELIVERY = 'sms';
+    process.env.SMS_GATEWAY_URL = '';
+    expect(() => otpDelivery()).toThrow('SMS_GATEWAY_URL is not configured');
+  });
+
+  it('rejects unknown providers', () => {
+    process.env.OTP_DELIVERY = 'pigeon';
+    expect(() => otpDelivery()).toThrow('Unknown OTP_DELIVERY provider: pigeon');
+  });
+});
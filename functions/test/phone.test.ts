@@ -0,0 +1,37 @@
+import { isNormalizedPhone, normalizePhone, requirePhone } from "../src/phone";
+
+describe('normalizePhone', () => {
+  it('reads Indian numbers in every common form as the same E.164 string', () => {
+    for (const input of ['9876543210', '09876543210', '919876543210', '+91 98765 43210', ' +91-98765-43210 ']) {
+      expect(normalizePhone(input)).toBe('+919876543210');
+    }
+  });
+
+  it('rejects Indian numbers outside the mobile ranges', () => {
+    expect(normalizePhone('+91 11 2345 6789')).toBeNull();
+  });
+
+  it('accepts valid numbers of other countries', () => {
+    expect(normalizePhone('+1 650-253-0000')).toBe('+16502530000');
+  });
+
+  it('rejects invalid input', () => {
+    for (const input of [undefined, null, 9876543210, '', '   ', '12345', 'not a phone']) {
+      expect(normalizePhone(input)).toBeNull();
+    }
+  });
+});
+
+describe('isNormalizedPhone', () => {
+  it('only accepts the stored form', () => {
+    expect(isNormalizedPhone('+919876543210')).toBe(true);
+    expect(isNormalizedPhone('9876543210')).toBe(false);
+  });
+});
+
+describe('requirePhone', () => {
+  it('throws INVALID_PHONE for unreadable numbers', () => {
+    expect(requirePhone('98765 43210')).toBe('+919876543210');
+    expect(() => requirePhone('12345')).toThrow('INVALID_PHONE');
+  });
+});
@@ -0,0 +1,35 @@
+import { hashPin, lockoutMs, verifyPinHash } from "../src/pin";
+
+describe('lockoutMs', () => {
+  it('allows the first failures without a lockout', () => {
+    for (let failures = 0; failures < 5; failures++) {
+      expect(lockoutMs(failures)).toBe(0);
+    }
+  });
+
+  it('locks for 30 seconds from the fifth failure, doubling per failure', () => {
+    expect(lockoutMs(5)).toBe(30 * 1000);
+    expect(lockoutMs(6)).toBe(60 * 1000);
+    expect(lockoutMs(7)).toBe(120 * 1000);
+  });
+
+  it('never locks for more than a day', () => {
+    expect(lockoutMs(17)).toBe(24 * 60 * 60 * 1000);
+    expect(lockoutMs(1000)).toBe(24 * 60 * 60 * 1000);
+  });
+});
+
+describe('verifyPinHash', () => {
+  it('accepts the hashed PIN only', async () => {
+    const stored = await hashPin('123456');
+    expect(stored.algorithm).toBe('scrypt');
+    await expect(verifyPinHash('123456', stored)).resolves.toBe(true);
+    await expect(verifyPinHash('123457', stored)).resolves.toBe(false);
+  });
+
+  it('salts every hash', async () => {
+    const [first, second] = await Promise.all([hashPin('123456'), hashPin('123456')]);
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.hash).not.toBe(second.hash);
+  });
+});
@@ -0,0 +1,42 @@
+import { isReferralConfirmable, referralStatusOf } from "../src/referral-attribution";
+
+describe('isReferralConfirmable', () => {
+  it('confirms a completed profile', () => {
+    expect(isReferralConfirmable({ profileCompleted: true })).toBe(true);
+  });
+
+  it('confirms a verified member without a completed profile', () => {
+    expect(isReferralConfirmable({ verification: { status: 'verified' } })).toBe(true);
+    expect(isReferralConfirmable({ isVerified: true })).toBe(true);
+  });
+
+  it('waits for an incomplete, unverified profile', () => {
+    expect(isReferralConfirmable({})).toBe(false);
+    expect(isReferralConfirmable({ profileCompleted: 'true' })).toBe(false);
+    expect(isReferralConfirmable({ verification: { status: 'pending' } })).toBe(false);
+  });
+
+  it('never confirms a member rejected in field verification', () => {
+    expect(isReferralConfirmable({ profileCompleted: true, verification: { status: 'rejected' } })).toBe(false);
+  });
+
+  it('withholds held and rejected registrations until cleared', () => {
+    expect(isReferralConfirmable({ profileCompleted: true, review: { status: 'held' } })).toBe(false);
+    expect(isReferralConfirmable({ profileCompleted: true, review: { status: 'rejected' } })).toBe(false);
+    expect(isReferralConfirmable({ profileCompleted: true, review: { status: 'cleared' } })).toBe(true);
+  });
+});
+
+describe('referralStatusOf', () => {
+  it('returns a stored status as is', () => {
+    expect(referralStatusOf({ referralStatus: 'pending', profileCompleted: true })).toBe('pending');
+    expect(referralStatusOf({ referralStatus: 'confirmed' })).toBe('confirmed');
+    expect(referralStatusOf({ referralStatus: 'revoked', profileCompleted: true })).toBe('revoked');
+  });
+
+  it('treats a missing status as confirmed only when the referral is confirmable', () => {
+    expect(referralStatusOf({ profileCompleted: true })).toBe('confirmed');
+    expect(referralStatusOf({})).toBe('pending');
+    expect(referralStatusOf({ profileCompleted: true, review: { status: 'held' } })).toBe('pending');
+  });
+});
@@ -0,0 +1,38 @@
+import { campaignCodeProblem, CampaignCode } from "../src/referral-campaigns";
+
+function campaign(overrides: Partial<CampaignCode> = {}): CampaignCode {
+  return {
+    uid: 'owner',
+    kind: 'campaign',
+    campaignId: 'drive-1',
+    campaignName: null,
+    expiresAt: null,
+    maxUses: null,
+    useCount: 0,
+    targetRegion: { state: 'Telangana', district: 'Hanumakonda' },
+    targetLocationCodes: { state: 'TG', district: 'TG-HNK', mandal: null, village: null },
+    active: true,
+    issuedBy: 'owner',
+    ...overrides,
+  };
+}
+
+describe('campaignCodeProblem', () => {
+  it('matches the target by location code when both sides have one', () => {
+    const codes = { state: 'TG', district: 'TG-HNK' };
+    expect(campaignCodeProblem(campaign(), { state: 'Telangana', district: 'Warangal Urban' }, codes)).toBeNull();
+    expect(campaignCodeProblem(campaign(), { state: 'Telangana', district: 'Hanumakonda' }, { state: 'TG', district: 'TG-HYD' }))
+      .toBe('CAMPAIGN_CODE_REGION_MISMATCH');
+  });
+
+  it('falls back to names where either side has no code', () => {
+    expect(campaignCodeProblem(campaign(), { state: 'telangana', district: 'hanumakonda' })).toBeNull();
+    expect(campaignCodeProblem(campaign({ targetLocationCodes: undefined }), { state: 'Telangana', district: 'Hanumakonda' },
+      { state: 'TG', district: 'TG-HNK' })).toBeNull();
+    expect(campaignCodeProblem(campaign(), { state: 'Telangana' })).toBe('CAMPAIGN_CODE_REGION_MISMATCH');
+  });
+
+  it('reports limits before the region', () => {
+    expect(campaignCodeProblem(campaign({ maxUses: 1, useCount: 1 }), {})).toBe('CAMPAIGN_CODE_EXHAUSTED');
+  });
+});
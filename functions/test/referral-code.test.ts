@@ -0,0 +1,44 @@
+import {
+  computeCheckCharacter,
+  generateReferralCode,
+  hasValidCheckCharacter,
+  REFERRAL_CODE_ALPHABET,
+  REFERRAL_CODE_PREFIX,
+} from "../src/referral-code";
+
+describe('computeCheckCharacter', () => {
+  it('makes the weighted sum of the body and check character 0 mod 31', () => {
+    expect(computeCheckCharacter('ABCDEF')).toBe('X');
+    expect(hasValidCheckCharacter('TALABCDEFX')).toBe(true);
+  });
+
+  it('catches every single mistyped character', () => {
+    const code = 'TALABCDEFX';
+    for (let i = REFERRAL_CODE_PREFIX.length; i < code.length; i++) {
+      for (const replacement of REFERRAL_CODE_ALPHABET) {
+        if (replacement === code[i]) continue;
+        const typo = code.slice(0, i) + replacement + code.slice(i + 1);
+        expect(hasValidCheckCharacter(typo)).toBe(false);
+      }
+    }
+  });
+
+  it('catches every swap of two different characters', () => {
+    const code = 'TALABCDEFX';
+    for (let i = REFERRAL_CODE_PREFIX.length; i < code.length; i++) {
+      for (let j = i + 1; j < code.length; j++) {
+        const chars = code.split('');
+        [chars[i], chars[j]] = [chars[j], chars[i]];
+        expect(hasValidCheckCharacter(chars.join(''))).toBe(false);
+      }
+    }
+  });
+
+  it('is satisfied by generated codes', () => {
+    for (let i = 0; i < 100; i++) {
+      const code = generateReferralCode();
+      expect(code).toMatch(/^TAL[23456789ABCDEFGHJKMNPQRSTUVWXYZ]{7}$/);
+      expect(hasValidCheckCharacter(code)).toBe(true);
+    }
+  });
+});
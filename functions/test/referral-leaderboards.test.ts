@@ -0,0 +1,20 @@
+import { leaderboardId } from "../src/referral-leaderboards";
+
+describe('leaderboardId', () => {
+  const region = { state: 'Telangana', district: 'Hyderabad', mandal: 'Ameerpet' };
+
+  it('keys each level by name when there are no location codes', () => {
+    expect(leaderboardId('7d', 'district', region)).toBe('7d__district__telangana__hyderabad');
+  });
+
+  it('keys each level by its location code where there is one', () => {
+    const codes = { state: 'TG', district: 'TG-HYD', mandal: null };
+    expect(leaderboardId('7d', 'mandal', region, codes)).toBe('7d__mandal__tg__tg-hyd__ameerpet');
+    expect(leaderboardId('7d', 'mandal', { ...region, district: 'Hyderabad City' }, codes))
+      .toBe(leaderboardId('7d', 'mandal', region, codes));
+  });
+
+  it('returns null when the region is missing a level', () => {
+    expect(leaderboardId('7d', 'village', region)).toBeNull();
+  });
+});
@@ -0,0 +1,16 @@
+import { countLedgerCredits } from "../src/referral-ledger";
+
+describe('countLedgerCredits', () => {
+  it('counts every entry toward the team and direct entries toward direct referrals', () => {
+    const counts = countLedgerCredits([
+      { ancestorId: 'a', type: 'direct' },
+      { ancestorId: 'a', type: 'direct' },
+      { ancestorId: 'a', type: 'team' },
+      { ancestorId: 'b', type: 'team' },
+    ]);
+
+    expect(counts.get('a')).toEqual({ direct: 2, team: 3 });
+    expect(counts.get('b')).toEqual({ direct: 0, team: 1 });
+    expect(counts.has('c')).toBe(false);
+  });
+});
@@ -0,0 +1,6 @@
+import * as admin from "firebase-admin";
+
+// Modules call admin.firestore() on import; nothing here talks to Firestore
+if (!admin.apps.length) {
+  admin.initializeApp({ projectId: 'talowa-test' });
+}
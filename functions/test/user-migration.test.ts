@@ -0,0 +1,81 @@
+import * as admin from "firebase-admin";
+import { normalizeUser, USER_SCHEMA_VERSION } from "../src/user-model";
+import { MigrationContext, userMigrationUpdate } from "../src/user-migration";
+
+// users/{uid} as registerUserProfile wrote it before the schema migration
+const baselineUser = {
+  uid: 'member-1',
+  phoneE164: '+919876543210',
+  aliasEmail: null,
+  fullName: 'Ravi Kumar',
+  state: 'Telangana',
+  district: 'Nalgonda',
+  mandal: 'Miryalaguda',
+  village: 'Kundanbagh',
+  role: 'member',
+  active: true,
+  referralChain: { referralCode: 'tal abc234 ', referredBy: null },
+  directReferrals: { count: 0 },
+  security: { pinHash: 'c0ffee' },
+  payment: { status: 'pending' },
+};
+
+const del = admin.firestore.FieldValue.delete();
+
+function context(referrerUids: Array<[string, string | null]> = []): MigrationContext {
+  return { referrerUids: new Map(referrerUids) };
+}
+
+describe('normalizeUser', () => {
+  it('reads the referral code entered at registration from referralChain', () => {
+    const user = normalizeUser('member-1', baselineUser);
+    expect(user.referredBy).toBe('TALABC234');
+    expect(user.referrerUid).toBeNull();
+  });
+
+  it('prefers referredBy and ignores the app\'s array form of referralChain', () => {
+    expect(normalizeUser('member-1', { ...baselineUser, referredBy: 'TALXYZ789' }).referredBy).toBe('TALXYZ789');
+    expect(normalizeUser('member-1', { referralChain: ['uid-a', 'uid-b'] }).referredBy).toBeNull();
+  });
+});
+
+describe('userMigrationUpdate', () => {
+  it('keeps the referrer of a baseline document and only then drops referralChain', () => {
+    const update = userMigrationUpdate('member-1', baselineUser, context([['TALABC234', 'referrer-1']]))!;
+
+    expect(update.referredBy).toBe('TALABC234');
+    expect(update.referrerUid).toBe('referrer-1');
+    expect(update.referralChain.isEqual(del)).toBe(true);
+    expect(update.directReferrals).toBe(0);
+    expect(update.teamReferrals).toBe(0);
+    expect(update.phoneNumber).toBe('+919876543210');
+    expect(update.schemaVersion).toBe(USER_SCHEMA_VERSION);
+  });
+
+  it('keeps referralChain and the old version while the code has no owner', () => {
+    const update = userMigrationUpdate('member-1', baselineUser, context([['TALABC234', null]]))!;
+
+    expect(update.referredBy).toBe('TALABC234');
+    expect(update).not.toHaveProperty('referrerUid');
+    expect(update).not.toHaveProperty('referralChain');
+    expect(update).not.toHaveProperty('schemaVersion');
+
+    // Nothing left to write until the code resolves
+    expect(userMigrationUpdate('member-1', { ...baselineUser, ...update }, context([['TALABC234', null]]))).toBeNull();
+  });
+
+  it('drops a referralChain that never held a code', () => {
+    const update = userMigrationUpdate('member-1', {
+      ...baselineUser,
+      referralChain: { referralCode: null, referredBy: null },
+    }, context())!;
+
+    expect(update).not.toHaveProperty('referredBy');
+    expect(update.referralChain.isEqual(del)).toBe(true);
+    expect(update.schemaVersion).toBe(USER_SCHEMA_VERSION);
+  });
+
+  it('leaves current documents alone', () => {
+    expect(userMigrationUpdate('member-1', { schemaVersion: USER_SCHEMA_VERSION }, context())).toBeNull();
+  });
+});
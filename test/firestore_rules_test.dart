@@ -7,7 +7,6 @@ void main() {
     await doc.set({
       'fullName': 'Test',
       'phone': '+919999999999',
-      'profileCompleted': true,
       'phoneVerified': true,
       'lastLoginAt': FieldValue.serverTimestamp(),
       'device': {'platform': 'android', 'appVersion': '1.0.0'},
@@ -25,5 +24,24 @@ void main() {
       expect(e.toString(), contains('permission-denied'));
     }
   });
+
+  test('Referral counters and schema version are denied', () async {
+    final doc = FirebaseFirestore.instance.collection('users').doc('testuid');
+    final updates = <Map<String, Object>>[
+      {'directReferrals': FieldValue.increment(50)},
+      {'teamReferrals': FieldValue.increment(500)},
+      {'teamSize': FieldValue.increment(500)},
+      {'schemaVersion': 99},
+      {'profileCompleted': true},
+    ];
+    for (final update in updates) {
+      try {
+        await doc.update(update);
+        fail('Should not allow ${update.keys.first}');
+      } catch (e) {
+        expect(e.toString(), contains('permission-denied'));
+      }
+    }
+  });
 }
 